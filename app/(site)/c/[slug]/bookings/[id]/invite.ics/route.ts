@@ -0,0 +1,26 @@
+import { bookingEvent } from "@/lib/booking"
+import { getCardStore } from "@/lib/card-store"
+import { serializeCalendar } from "@/lib/ics"
+
+export const dynamic = "force-dynamic"
+
+/** The visitor's copy of a booking. The unguessable booking id is what grants access. */
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string; id: string }> }) {
+  const { slug, id } = await params
+  const store = getCardStore()
+  const profile = await store.get(slug)
+  const booking = profile && (await store.listBookings(slug)).find((candidate) => candidate.id === id)
+  if (!profile || !booking) {
+    return new Response("Booking not found", { status: 404 })
+  }
+
+  const block = profile.blocks?.find((candidate) => candidate.id === booking.blockId)
+  const event = bookingEvent(profile, block?.type === "booking" ? block : undefined, booking, new URL(request.url).hostname)
+  return new Response(serializeCalendar([event]), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="meeting.ics"',
+      "Cache-Control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { bookingRequestSchema, bookingSlots, type Booking } from "@/lib/booking"
+import { getCardStore } from "@/lib/card-store"
+import { zonedParts } from "@/lib/time-zone"
+
+export const dynamic = "force-dynamic"
+
+/** Times already taken on the owner's calendar from now on, without who took them. */
+export async function GET(_request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+  const store = getCardStore()
+  if (!(await store.get(slug))) {
+    return NextResponse.json({ error: "Card not found" }, { status: 404 })
+  }
+
+  const now = Date.now()
+  const busy = (await store.listBookings(slug))
+    .filter((booking) => Date.parse(booking.end) > now)
+    .map(({ start, end }) => ({ start, end }))
+  return NextResponse.json({ busy }, { headers: { "Cache-Control": "no-store" } })
+}
+
+/**
+ * Books a meeting. The slot is checked against the block's openings and the
+ * stored bookings at the moment it is saved, so two visitors cannot take the
+ * same time.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+  const body = bookingRequestSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    const issue = body.error.issues[0]
+    return NextResponse.json(
+      { error: issue?.message ?? "Invalid booking", fields: body.error.flatten().fieldErrors },
+      { status: 422 },
+    )
+  }
+
+  const store = getCardStore()
+  const profile = await store.get(slug)
+  const block = profile?.blocks?.find((candidate) => candidate.id === body.data.blockId)
+  if (!block || block.type !== "booking" || block.hidden) {
+    return NextResponse.json({ error: "Booking is no longer available" }, { status: 404 })
+  }
+  if (!block.durations.includes(body.data.duration)) {
+    return NextResponse.json({ error: "Pick one of the offered meeting lengths" }, { status: 422 })
+  }
+
+  const { blockId, duration, name, email, note } = body.data
+  const start = new Date(body.data.start).toISOString()
+  const booking: Booking = {
+    id: crypto.randomUUID(),
+    blockId,
+    start,
+    end: new Date(Date.parse(start) + duration * 60_000).toISOString(),
+    createdAt: new Date().toISOString(),
+    name,
+    email,
+    note: note || undefined,
+  }
+
+  const day = zonedParts(Date.parse(start), block.timeZone).date
+  const stored = await store.addBooking(slug, booking, (existing) =>
+    bookingSlots(block, day, duration, existing).some((slot) => slot.start === start),
+  )
+  if (!stored) {
+    return NextResponse.json({ error: "That time is no longer available. Please pick another." }, { status: 409 })
+  }
+  return NextResponse.json({ id: booking.id, start: booking.start, end: booking.end }, { status: 201 })
+}
@@ -0,0 +1,31 @@
+import { getCardStore } from "@/lib/card-store"
+import { profileToVCard, serializeVCard, vcardFileName, type VCardVersion } from "@/lib/vcard"
+import { LOGO_SIZE, PHOTO_SIZE, loadVCardMedia } from "@/lib/vcard/server-media"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+  const profile = await getCardStore().get(slug)
+  if (!profile) {
+    return new Response("Card not found", { status: 404 })
+  }
+
+  const requested = new URL(request.url).searchParams.get("version")
+  const version: VCardVersion = requested === "4.0" ? "4.0" : "3.0"
+
+  const [photo, logo] = await Promise.all([
+    loadVCardMedia(profile.identity.avatar.src, { size: PHOTO_SIZE, fit: "cover", mediaType: "image/jpeg" }),
+    loadVCardMedia(profile.branding.logo.src, { size: LOGO_SIZE, fit: "contain", mediaType: "image/png" }),
+  ])
+  const body = serializeVCard({ ...profileToVCard(profile), photo, logo }, { version })
+
+  const fileName = vcardFileName(profile.identity.name)
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/vcard; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
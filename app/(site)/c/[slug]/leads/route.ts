@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { getCardStore } from "@/lib/card-store"
+import { createLead, leadSubmissionSchema, type LeadSubmission } from "@/lib/leads"
+
+export const dynamic = "force-dynamic"
+
+const requestSchema = z.object({
+  blockId: z.string().min(1),
+  values: z.record(z.unknown()),
+})
+
+/** Receives a lead form. Answers are checked against the form's own settings before they are stored. */
+export async function POST(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params
+  const body = requestSchema.safeParse(await request.json().catch(() => null))
+  if (!body.success) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 })
+  }
+
+  const store = getCardStore()
+  const profile = await store.get(slug)
+  const block = profile?.blocks?.find((candidate) => candidate.id === body.data.blockId)
+  if (!block || block.type !== "lead-form" || block.hidden) {
+    return NextResponse.json({ error: "This form is no longer available" }, { status: 404 })
+  }
+
+  const submission = leadSubmissionSchema(block).safeParse(body.data.values)
+  if (!submission.success) {
+    const issue = submission.error.issues[0]
+    return NextResponse.json(
+      { error: issue?.message ?? "Invalid details", fields: submission.error.flatten().fieldErrors },
+      { status: 422 },
+    )
+  }
+
+  const lead = createLead(block, submission.data as LeadSubmission)
+  await store.addLead(slug, lead)
+  return NextResponse.json({ id: lead.id }, { status: 201 })
+}
@@ -0,0 +1,15 @@
+import Link from "next/link"
+
+export default function CardNotFound() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Card not found</h1>
+        <p className="text-gray-600 mb-4">This card does not exist or has been removed.</p>
+        <Link href="/" className="text-violet-600 font-semibold hover:underline">
+          Browse all cards
+        </Link>
+      </div>
+    </div>
+  )
+}
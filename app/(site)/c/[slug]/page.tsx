@@ -0,0 +1,30 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import DelightCardLanding from "@/components/delight-card-landing"
+import { getCardStore } from "@/lib/card-store"
+
+export const dynamic = "force-dynamic"
+
+interface CardPageProps {
+  params: Promise<{ slug: string }>
+}
+
+export async function generateMetadata({ params }: CardPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const profile = await getCardStore().get(slug)
+  if (!profile) return {}
+
+  const { name, title, organization } = profile.identity
+  return {
+    title: name,
+    description: [title, organization].filter(Boolean).join(" at "),
+  }
+}
+
+export default async function CardPage({ params }: CardPageProps) {
+  const { slug } = await params
+  const profile = await getCardStore().get(slug)
+  if (!profile) notFound()
+
+  return <DelightCardLanding slug={slug} profile={profile} />
+}
@@ -0,0 +1,30 @@
+"use server"
+
+import { redirect } from "next/navigation"
+import { cardProfileSchema, cardSlugSchema, type CardProfile } from "@/lib/card-profile"
+import { getCardStore } from "@/lib/card-store"
+
+export interface ImportCardState {
+  error?: string
+}
+
+export async function importCard(slug: string, input: CardProfile): Promise<ImportCardState> {
+  const parsedSlug = cardSlugSchema.safeParse(slug)
+  if (!parsedSlug.success) {
+    return { error: parsedSlug.error.issues[0]?.message ?? "Invalid slug" }
+  }
+
+  const profile = cardProfileSchema.safeParse(input)
+  if (!profile.success) {
+    const issue = profile.error.issues[0]
+    return { error: issue ? `${issue.path.join(".")}: ${issue.message}` : "Invalid card" }
+  }
+
+  const store = getCardStore()
+  if (await store.get(parsedSlug.data)) {
+    return { error: `The address /c/${parsedSlug.data} is already taken` }
+  }
+
+  await store.save(parsedSlug.data, profile.data)
+  redirect(`/editor/${parsedSlug.data}`)
+}
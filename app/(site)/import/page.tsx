@@ -0,0 +1,18 @@
+import type { Metadata } from "next"
+import VCardImport from "@/components/vcard-import"
+
+export const metadata: Metadata = {
+  title: "Import a contact",
+}
+
+export default function ImportPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-xl mx-auto">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Create a card from a contact</h1>
+        <p className="text-gray-600 mb-6">Upload a .vcf file exported from your phone or address book.</p>
+        <VCardImport />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { ThemeProvider } from "@/components/theme-provider"
+
+/** Public pages follow the visitor's system setting. */
+export default function SiteLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return (
+    <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
+      {children}
+    </ThemeProvider>
+  )
+}
@@ -0,0 +1,46 @@
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { getCardStore } from "@/lib/card-store"
+
+export const dynamic = "force-dynamic"
+
+export default async function CardIndex() {
+  const cards = await getCardStore().list()
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-sm mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Cards</h1>
+          <Link href="/import" className="text-violet-600 text-sm font-semibold hover:underline">
+            Import from .vcf
+          </Link>
+        </div>
+        {cards.length === 0 ? (
+          <p className="text-gray-600">No cards yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {cards.map((card) => (
+              <Card
+                key={card.slug}
+                className="bg-gradient-to-r from-violet-50 to-purple-50 border border-violet-100/50 hover:from-violet-100 hover:to-purple-100 transition-all duration-200 shadow-sm hover:shadow-md"
+              >
+                <CardContent className="p-4 flex items-center gap-3">
+                  <Link href={`/c/${card.slug}`} className="flex-1 min-w-0">
+                    <p className="text-gray-800 font-semibold">{card.name}</p>
+                    <p className="text-gray-600 text-sm truncate">
+                      {[card.title, card.organization].filter(Boolean).join(" · ")}
+                    </p>
+                  </Link>
+                  <Link href={`/editor/${card.slug}`} className="text-violet-600 text-sm font-semibold hover:underline">
+                    Edit
+                  </Link>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+"use server"
+
+import { headers } from "next/headers"
+import { cardProfileSchema, type CardProfile } from "@/lib/card-profile"
+import { getCardStore } from "@/lib/card-store"
+import { isOwner } from "@/lib/owner-auth"
+
+export interface SaveCardState {
+  error?: string
+}
+
+export async function saveCard(slug: string, input: CardProfile): Promise<SaveCardState> {
+  // Server actions can be called directly, not only from the designer the middleware guards.
+  if (!(await isOwner(await headers()))) {
+    return { error: "Sign in as the card owner to save" }
+  }
+
+  const profile = cardProfileSchema.safeParse(input)
+  if (!profile.success) {
+    const issue = profile.error.issues[0]
+    return { error: issue ? `${issue.path.join(".")}: ${issue.message}` : "Invalid card" }
+  }
+
+  const store = getCardStore()
+  if (!(await store.get(slug))) {
+    return { error: "This card no longer exists" }
+  }
+
+  await store.save(slug, profile.data)
+  return {}
+}
@@ -0,0 +1,42 @@
+import { bookingEvent, type BookingBlock } from "@/lib/booking"
+import { getCardStore } from "@/lib/card-store"
+import { serializeCalendar } from "@/lib/ics"
+import { requireOwner } from "@/lib/owner-auth"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * The owner's copy of every booking as one calendar, behind the owner
+ * password. `?block=<id>` limits it to one booking block. Calendar apps that
+ * accept a user name and password can also subscribe to this address.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const denied = await requireOwner(request)
+  if (denied) return denied
+
+  const { slug } = await params
+  const store = getCardStore()
+  const profile = await store.get(slug)
+  if (!profile) {
+    return new Response("Card not found", { status: 404 })
+  }
+
+  const url = new URL(request.url)
+  const blockId = url.searchParams.get("block")
+  const blocks = new Map(
+    (profile.blocks ?? [])
+      .filter((block): block is BookingBlock => block.type === "booking")
+      .map((block) => [block.id, block]),
+  )
+  const events = (await store.listBookings(slug))
+    .filter((booking) => !blockId || booking.blockId === blockId)
+    .map((booking) => bookingEvent(profile, blocks.get(booking.blockId), booking, url.hostname))
+
+  return new Response(serializeCalendar(events, { name: `${profile.identity.name} bookings` }), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${slug}-bookings.ics"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,28 @@
+import { getCardStore } from "@/lib/card-store"
+import { leadsToCsv } from "@/lib/leads"
+import { requireOwner } from "@/lib/owner-auth"
+
+export const dynamic = "force-dynamic"
+
+/** Lead form responses as a spreadsheet, for the owner only. `?block=<id>` limits it to one form. */
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const denied = await requireOwner(request)
+  if (denied) return denied
+
+  const { slug } = await params
+  const store = getCardStore()
+  if (!(await store.get(slug))) {
+    return new Response("Card not found", { status: 404 })
+  }
+
+  const blockId = new URL(request.url).searchParams.get("block")
+  const leads = (await store.listLeads(slug)).filter((lead) => !blockId || lead.blockId === blockId)
+
+  return new Response(leadsToCsv(leads), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${slug}-leads.csv"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from "next"
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import CardDesigner from "@/components/designer/card-designer"
+import { getCardStore } from "@/lib/card-store"
+import { isOwner } from "@/lib/owner-auth"
+
+export const dynamic = "force-dynamic"
+
+interface EditorPageProps {
+  params: Promise<{ slug: string }>
+}
+
+export async function generateMetadata({ params }: EditorPageProps): Promise<Metadata> {
+  const { slug } = await params
+  const profile = await getCardStore().get(slug)
+  return { title: profile ? `Edit ${profile.identity.name}` : "Card designer" }
+}
+
+export default async function EditorPage({ params }: EditorPageProps) {
+  // The middleware asks for the password first; this keeps the card private if it is ever bypassed.
+  if (!(await isOwner(await headers()))) notFound()
+  const { slug } = await params
+  const profile = await getCardStore().get(slug)
+  if (!profile) notFound()
+
+  return <CardDesigner slug={slug} profile={profile} />
+}
@@ -0,0 +1,32 @@
+import type { Metadata } from "next"
+import { headers } from "next/headers"
+import { notFound } from "next/navigation"
+import { CardPreviewFrame } from "@/components/designer/card-preview-frame"
+import { getCardStore } from "@/lib/card-store"
+import { isOwner } from "@/lib/owner-auth"
+
+export const dynamic = "force-dynamic"
+
+export const metadata: Metadata = {
+  title: "Card preview",
+  robots: { index: false },
+}
+
+interface PreviewPageProps {
+  params: Promise<{ slug: string }>
+}
+
+/**
+ * The designer's device preview loads this page in an iframe, so the card's
+ * breakpoints respond to the simulated device width. Unsaved edits arrive from
+ * the designer as messages; the saved card is shown until the first one.
+ */
+export default async function PreviewPage({ params }: PreviewPageProps) {
+  // The middleware asks for the password first; this keeps the card private if it is ever bypassed.
+  if (!(await isOwner(await headers()))) notFound()
+  const { slug } = await params
+  const profile = await getCardStore().get(slug)
+  if (!profile) notFound()
+
+  return <CardPreviewFrame slug={slug} profile={profile} />
+}
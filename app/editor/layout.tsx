@@ -0,0 +1,19 @@
+import { ThemeProvider } from "@/components/theme-provider"
+
+/**
+ * The designer's theme switch stores its choice under its own key, so public
+ * cards that follow the system never pick it up.
+ */
+export default function EditorLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return (
+    <ThemeProvider
+      attribute="class"
+      defaultTheme="system"
+      enableSystem
+      disableTransitionOnChange
+      storageKey="designer-theme"
+    >
+      {children}
+    </ThemeProvider>
+  )
+}
@@ -1,5 +1,7 @@
 import type { Metadata } from 'next'
 import './globals.css'
+import { Toaster } from '@/components/ui/toaster'
+import { getFont } from '@/lib/fonts'
 
 export const metadata: Metadata = {
   title: 'v0 App',
@@ -13,8 +15,13 @@ export default function RootLayout({
   children: React.ReactNode
 }>) {
   return (
-    <html lang="en">
-      <body>{children}</body>
+    // next-themes sets the theme class on <html> before hydration. The public
+    // and editor layouts each pick where the theme choice is stored.
+    <html lang="en" suppressHydrationWarning>
+      <body className={getFont('inter').className}>
+        {children}
+        <Toaster />
+      </body>
     </html>
   )
 }
@@ -0,0 +1,10 @@
+import type { ReactNode } from "react"
+
+/** The title over a content block, in the card's heading font. */
+export function BlockHeading({ children }: { children: ReactNode }) {
+  return (
+    <h3 className="font-heading text-[1.125em] [font-weight:var(--card-heading-weight)] text-card-foreground mb-2">
+      {children}
+    </h3>
+  )
+}
@@ -0,0 +1,295 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { format, parseISO } from "date-fns"
+import { CalendarCheck, Download, Globe } from "lucide-react"
+import { BlockHeading } from "@/components/card/blocks/block-heading"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Textarea } from "@/components/ui/textarea"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { useToast } from "@/hooks/use-toast"
+import {
+  bookingDetailsSchema,
+  bookingSlots,
+  bookingToday,
+  formatDuration,
+  type BookingBlock as BookingBlockData,
+  type BookingDetails,
+  type BookingSlot,
+  type BusyTime,
+} from "@/lib/booking"
+import { addDays, localTimeZone } from "@/lib/time-zone"
+import { cn } from "@/lib/utils"
+
+/** The stock calendar's 36px days are small to tap; these are 44px. */
+const CALENDAR_CLASS_NAMES = {
+  caption: "flex justify-center relative items-center h-11",
+  nav_button: cn(buttonVariants({ variant: "outline" }), "h-11 w-11 bg-transparent p-0 opacity-70 hover:opacity-100"),
+  head_cell: "text-muted-foreground rounded-md w-11 font-normal text-[0.8rem]",
+  cell: "h-11 w-11 text-center text-sm p-0 relative focus-within:relative focus-within:z-20",
+  day: cn(buttonVariants({ variant: "ghost" }), "h-11 w-11 p-0 font-normal aria-selected:opacity-100"),
+}
+
+interface Confirmed {
+  id: string
+  slot: BookingSlot
+}
+
+function timeLabel(instant: string, timeZone?: string) {
+  return new Intl.DateTimeFormat(undefined, { timeZone, hour: "numeric", minute: "2-digit" }).format(Date.parse(instant))
+}
+
+function dateTimeLabel(instant: string, timeZone: string) {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(Date.parse(instant))
+}
+
+/**
+ * Lets visitors book time with the owner: pick a length, a day and one of
+ * the open times, then leave a name and email. Days and times follow the
+ * owner's calendar in their own time zone; visitors elsewhere also see each
+ * time in theirs.
+ */
+export function BookingBlock({ slug, block }: { slug: string; block: BookingBlockData }) {
+  const { toast } = useToast()
+  const [busy, setBusy] = useState<BusyTime[]>()
+  const [visitorZone, setVisitorZone] = useState<string>()
+  const [duration, setDuration] = useState(block.durations[0])
+  const [day, setDay] = useState<string>()
+  const [slot, setSlot] = useState<BookingSlot>()
+  const [confirmed, setConfirmed] = useState<Confirmed>()
+  const form = useForm<BookingDetails>({
+    resolver: zodResolver(bookingDetailsSchema),
+    defaultValues: { name: "", email: "", note: "" },
+  })
+
+  const loadBusy = useCallback(
+    () =>
+      fetch(`/c/${slug}/bookings`, { cache: "no-store" })
+        .then((response) => (response.ok ? response.json() : { busy: [] }))
+        .then((data: { busy: BusyTime[] }) => setBusy(data.busy))
+        .catch(() => setBusy([])),
+    [slug],
+  )
+
+  // Busy times and the visitor's zone are only known in the browser, so the calendar waits for them.
+  useEffect(() => {
+    setVisitorZone(localTimeZone())
+    void loadBusy()
+  }, [loadBusy])
+
+  // The designer can drop the selected length while editing.
+  const length = block.durations.includes(duration) ? duration : block.durations[0]
+
+  const slotsFor = useMemo(() => {
+    const cache = new Map<string, BookingSlot[]>()
+    const now = Date.now()
+    return (date: string) => {
+      let slots = cache.get(date)
+      if (!slots) {
+        slots = bookingSlots(block, date, length, busy ?? [], now)
+        cache.set(date, slots)
+      }
+      return slots
+    }
+  }, [block, length, busy])
+
+  const today = bookingToday(block)
+  const daySlots = day ? slotsFor(day) : []
+  const showLocal = visitorZone !== undefined && visitorZone !== block.timeZone
+
+  const onSubmit = async (details: BookingDetails) => {
+    if (!slot) return
+    const response = await fetch(`/c/${slug}/bookings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...details, blockId: block.id, start: slot.start, duration: length }),
+    }).catch(() => null)
+    const data = await response?.json().catch(() => null)
+    if (!response?.ok) {
+      toast({
+        variant: "destructive",
+        title: "Could not book this time",
+        description: data?.error ?? "Check your connection and try again.",
+      })
+      if (response?.status === 409) {
+        setSlot(undefined)
+        void loadBusy()
+      }
+      return
+    }
+    setConfirmed({ id: data.id, slot })
+    form.reset()
+    void loadBusy()
+    toast({ title: "Meeting booked", description: dateTimeLabel(slot.start, visitorZone ?? block.timeZone) })
+  }
+
+  const reset = () => {
+    setConfirmed(undefined)
+    setSlot(undefined)
+    setDay(undefined)
+  }
+
+  return (
+    <section>
+      {block.title && <BlockHeading>{block.title}</BlockHeading>}
+      {block.intro && <p className="mb-3 text-muted-foreground text-[0.875em]">{block.intro}</p>}
+
+      {confirmed ? (
+        <div className="space-y-3 rounded-lg border border-card-accent/15 bg-card-surface p-4 text-center" role="status">
+          <CalendarCheck className="mx-auto h-8 w-8 text-card-accent" />
+          <p className="font-medium text-card-foreground">
+            You&apos;re booked for {dateTimeLabel(confirmed.slot.start, visitorZone ?? block.timeZone)}.
+          </p>
+          {block.location && <p className="text-muted-foreground text-[0.875em]">{block.location}</p>}
+          <div className="flex flex-col gap-2">
+            <Button asChild className="h-11 rounded-full">
+              <a href={`/c/${slug}/bookings/${confirmed.id}/invite.ics`} download>
+                <Download />
+                Add to your calendar
+              </a>
+            </Button>
+            <Button type="button" variant="ghost" className="h-11 rounded-full" onClick={reset}>
+              Book another time
+            </Button>
+          </div>
+        </div>
+      ) : busy === undefined ? (
+        <Skeleton className="h-80 w-full rounded-lg" />
+      ) : (
+        <div className="space-y-4">
+          {block.durations.length > 1 && (
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="flex-wrap justify-start"
+              value={String(length)}
+              onValueChange={(value) => {
+                if (!value) return
+                setDuration(Number(value))
+                setSlot(undefined)
+              }}
+              aria-label="Meeting length"
+            >
+              {block.durations.map((minutes) => (
+                <ToggleGroupItem key={minutes} value={String(minutes)} className="h-11">
+                  {formatDuration(minutes)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          <Calendar
+            mode="single"
+            selected={day ? parseISO(day) : undefined}
+            onSelect={(date) => {
+              setDay(date ? format(date, "yyyy-MM-dd") : undefined)
+              setSlot(undefined)
+            }}
+            disabled={(date) => slotsFor(format(date, "yyyy-MM-dd")).length === 0}
+            fromMonth={parseISO(today)}
+            toMonth={parseISO(addDays(today, block.horizonDays))}
+            showOutsideDays={false}
+            classNames={CALENDAR_CLASS_NAMES}
+            className="mx-auto w-fit rounded-lg border border-card-accent/15 bg-card-surface p-2"
+          />
+
+          <p className="flex items-center gap-1.5 text-muted-foreground text-[0.8125em]">
+            <Globe className="h-3.5 w-3.5" />
+            Times are in {block.timeZone.replace(/_/g, " ")}
+            {showLocal && `, with yours underneath`}.
+          </p>
+
+          {day && !slot && (
+            <div className="grid grid-cols-3 gap-2" role="group" aria-label="Available times">
+              {daySlots.map((option) => (
+                <Button
+                  key={option.start}
+                  type="button"
+                  variant="outline"
+                  className="h-auto min-h-11 flex-col gap-0 py-1.5"
+                  onClick={() => setSlot(option)}
+                >
+                  {timeLabel(option.start, block.timeZone)}
+                  {showLocal && <span className="text-muted-foreground text-xs font-normal">{timeLabel(option.start)}</span>}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {slot && (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3" noValidate>
+                <p className="font-medium text-card-foreground">
+                  {formatDuration(length)} on {dateTimeLabel(slot.start, block.timeZone)}
+                </p>
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-card-foreground">Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} autoComplete="name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-card-foreground">Email</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="email" autoComplete="email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="note"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-card-foreground">
+                        What would you like to discuss? <span className="font-normal text-muted-foreground">(optional)</span>
+                      </FormLabel>
+                      <FormControl>
+                        <Textarea {...field} value={field.value ?? ""} rows={3} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex gap-2">
+                  <Button type="button" variant="ghost" className="h-11 rounded-full" onClick={() => setSlot(undefined)}>
+                    Back
+                  </Button>
+                  <Button type="submit" className="h-11 flex-1 rounded-full" disabled={form.formState.isSubmitting}>
+                    {form.formState.isSubmitting ? "Booking…" : "Confirm booking"}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
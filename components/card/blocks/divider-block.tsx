@@ -0,0 +1,16 @@
+import type { CardBlock } from "@/lib/card-profile"
+
+export function DividerBlock({ block }: { block: Extract<CardBlock, { type: "divider" }> }) {
+  switch (block.style) {
+    case "line":
+      return <hr className="border-border" />
+    case "dots":
+      return (
+        <div role="separator" className="text-center tracking-[0.5em] text-card-accent">
+          <span aria-hidden>•••</span>
+        </div>
+      )
+    case "space":
+      return <div aria-hidden className="h-4" />
+  }
+}
@@ -0,0 +1,240 @@
+"use client"
+
+import * as React from "react"
+import Image from "next/image"
+import { ChevronRight, Maximize2, X } from "lucide-react"
+import { BlockHeading } from "@/components/card/blocks/block-heading"
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel"
+import { Dialog, DialogClose, DialogContent, DialogTitle } from "@/components/ui/dialog"
+import type { CardBlock } from "@/lib/card-profile"
+import { cn } from "@/lib/utils"
+
+type GalleryBlockData = Extract<CardBlock, { type: "gallery" }>
+type GalleryItem = GalleryBlockData["items"][number]
+
+/**
+ * Slides whose images should be mounted: those that have been on screen, plus
+ * one either side so the next swipe lands on a loaded image. Before the
+ * carousel measures itself that is the starting slide and its neighbours.
+ */
+function useLoadedSlides(api: CarouselApi, start: number) {
+  const [loaded, setLoaded] = React.useState(() => new Set([start - 1, start, start + 1]))
+
+  React.useEffect(() => {
+    if (!api) return
+    const onInView = () => {
+      const near = api.slidesInView().flatMap((index) => [index - 1, index, index + 1])
+      setLoaded((current) => (near.every((index) => current.has(index)) ? current : new Set([...current, ...near])))
+    }
+    onInView()
+    api.on("slidesInView", onInView)
+    return () => {
+      api.off("slidesInView", onInView)
+    }
+  }, [api])
+
+  return loaded
+}
+
+function useSelectedSlide(api: CarouselApi, start: number) {
+  const [selected, setSelected] = React.useState(start)
+
+  React.useEffect(() => {
+    if (!api) return
+    const onSelect = () => setSelected(api.selectedScrollSnap())
+    onSelect()
+    api.on("select", onSelect)
+    return () => {
+      api.off("select", onSelect)
+    }
+  }, [api])
+
+  return selected
+}
+
+function linkText(item: GalleryItem) {
+  if (item.title) return item.title
+  try {
+    return new URL(item.href ?? "").hostname.replace(/^www\./, "")
+  } catch {
+    return item.href
+  }
+}
+
+function ItemLink({ item, className }: { item: GalleryItem; className?: string }) {
+  if (!item.href) return item.title ? <p className={className}>{item.title}</p> : null
+  const external = /^https?:/i.test(item.href)
+  return (
+    <a
+      href={item.href}
+      target={external ? "_blank" : undefined}
+      rel={external ? "noopener noreferrer" : undefined}
+      className={cn("inline-flex items-center gap-1 underline-offset-4 hover:underline", className)}
+    >
+      {linkText(item)}
+      <ChevronRight className="h-[1em] w-[1em]" />
+    </a>
+  )
+}
+
+interface LightboxProps {
+  block: GalleryBlockData
+  start: number
+  /** Called with the slide the visitor ended on. */
+  onClose: (index: number) => void
+}
+
+/** Fullscreen view of the gallery. Arrow keys, Home and End move between slides anywhere in the dialog. */
+function Lightbox({ block, start, onClose }: LightboxProps) {
+  const [api, setApi] = React.useState<CarouselApi>()
+  const selected = useSelectedSlide(api, start)
+  const loaded = useLoadedSlides(api, start)
+  const count = block.items.length
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    // The carousel handles arrows itself when focus is inside it.
+    if (event.defaultPrevented || !api) return
+    const moves: Record<string, () => void> = {
+      ArrowLeft: () => api.scrollPrev(),
+      ArrowRight: () => api.scrollNext(),
+      Home: () => api.scrollTo(0),
+      End: () => api.scrollTo(count - 1),
+    }
+    const move = moves[event.key]
+    if (!move) return
+    event.preventDefault()
+    move()
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose(selected)}>
+      <DialogContent
+        aria-describedby={undefined}
+        onKeyDown={onKeyDown}
+        className="flex h-dvh max-w-none flex-col gap-0 border-0 bg-black/95 p-0 text-white sm:rounded-none [&>button:last-child]:hidden"
+      >
+        <div className="flex items-center gap-3 px-4 py-3">
+          <DialogTitle className="flex-1 truncate text-base font-medium">{block.title || "Gallery"}</DialogTitle>
+          <span className="text-sm tabular-nums text-white/70" aria-live="polite">
+            {selected + 1} of {count}
+          </span>
+          <DialogClose className="flex h-11 w-11 items-center justify-center rounded-full hover:bg-white/10 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-white">
+            <X className="h-5 w-5" />
+            <span className="sr-only">Close</span>
+          </DialogClose>
+        </div>
+        <Carousel setApi={setApi} opts={{ startIndex: start }} aria-label={block.title || "Gallery"}>
+          <CarouselContent>
+            {block.items.map((item, index) => (
+              <CarouselItem key={index} aria-label={`${index + 1} of ${count}`}>
+                {/* The header above is 4.25rem tall. */}
+                <figure className="flex h-[calc(100dvh-4.25rem)] flex-col">
+                  <div className="relative flex-1">
+                    {loaded.has(index) && (
+                      <Image src={item.image.src} alt={item.image.alt} fill sizes="100vw" className="object-contain" />
+                    )}
+                  </div>
+                  {(item.title || item.caption || item.href) && (
+                    <figcaption className="space-y-1 px-6 py-4 text-center">
+                      <ItemLink item={item} className="font-medium" />
+                      {item.caption && <p className="text-sm text-white/70">{item.caption}</p>}
+                    </figcaption>
+                  )}
+                </figure>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          {count > 1 && (
+            <>
+              <CarouselPrevious
+                type="button"
+                className="left-4 h-11 w-11 border-white/20 bg-black/50 text-white hover:bg-black/70 hover:text-white"
+              />
+              <CarouselNext
+                type="button"
+                className="right-4 h-11 w-11 border-white/20 bg-black/50 text-white hover:bg-black/70 hover:text-white"
+              />
+            </>
+          )}
+        </Carousel>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * A swipeable row of images or case studies. Off-screen images load as they
+ * come into view, and any slide opens fullscreen in a lightbox.
+ */
+export function GalleryBlock({ block }: { block: GalleryBlockData }) {
+  const [api, setApi] = React.useState<CarouselApi>()
+  const [openAt, setOpenAt] = React.useState<number>()
+  const loaded = useLoadedSlides(api, 0)
+  const items = block.items.filter((item) => item.image.src)
+  if (items.length === 0) return null
+  const gallery = { ...block, items }
+
+  return (
+    <section>
+      {block.title && <BlockHeading>{block.title}</BlockHeading>}
+      <Carousel setApi={setApi} opts={{ align: "start" }} aria-label={block.title || "Gallery"}>
+        <CarouselContent className="-ml-3">
+          {items.map((item, index) => (
+            <CarouselItem key={index} className={cn("pl-3", items.length > 1 && "basis-[85%]")} aria-label={`${index + 1} of ${items.length}`}>
+              <figure>
+                <button
+                  type="button"
+                  onClick={() => setOpenAt(index)}
+                  className="group relative block aspect-[4/3] w-full overflow-hidden rounded-lg bg-card-surface focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  aria-label={`View ${item.image.alt || item.title || `image ${index + 1}`} fullscreen`}
+                >
+                  {loaded.has(index) && (
+                    <Image
+                      src={item.image.src}
+                      alt=""
+                      fill
+                      sizes="(min-width: 768px) 340px, 85vw"
+                      className="object-cover transition-transform motion-safe:group-hover:scale-105"
+                    />
+                  )}
+                  <span className="absolute right-2 top-2 rounded-full bg-black/50 p-1.5 text-white opacity-0 transition-opacity group-hover:opacity-100 group-focus-visible:opacity-100">
+                    <Maximize2 className="h-4 w-4" />
+                  </span>
+                </button>
+                {(item.title || item.caption || item.href) && (
+                  <figcaption className="mt-2 space-y-0.5">
+                    <ItemLink item={item} className="font-medium text-card-foreground" />
+                    {item.caption && <p className="text-muted-foreground text-[0.875em]">{item.caption}</p>}
+                  </figcaption>
+                )}
+              </figure>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {items.length > 1 && (
+          <>
+            <CarouselPrevious type="button" className="left-2 top-[37.5%] h-9 w-9 bg-background/80 disabled:opacity-0" />
+            <CarouselNext type="button" className="right-2 top-[37.5%] h-9 w-9 bg-background/80 disabled:opacity-0" />
+          </>
+        )}
+      </Carousel>
+      {openAt !== undefined && (
+        <Lightbox
+          block={gallery}
+          start={openAt}
+          onClose={(index) => {
+            setOpenAt(undefined)
+            api?.scrollTo(index, true)
+          }}
+        />
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,31 @@
+import Image from "next/image"
+import type { CardBlock } from "@/lib/card-profile"
+
+export function ImageBlock({ block }: { block: Extract<CardBlock, { type: "image" }> }) {
+  if (!block.image.src) return null
+
+  // Zero intrinsic size lets the image keep its own aspect ratio.
+  const image = (
+    <Image
+      src={block.image.src}
+      alt={block.image.alt}
+      width={0}
+      height={0}
+      sizes="(min-width: 768px) 384px, 100vw"
+      className="block h-auto w-full rounded-lg"
+    />
+  )
+
+  return (
+    <figure>
+      {block.href ? (
+        <a href={block.href} className="block rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring">
+          {image}
+        </a>
+      ) : (
+        image
+      )}
+      {block.caption && <figcaption className="mt-2 text-center text-muted-foreground text-[0.875em]">{block.caption}</figcaption>}
+    </figure>
+  )
+}
@@ -0,0 +1,45 @@
+import type { ComponentType } from "react"
+import { BookingBlock } from "@/components/card/blocks/booking-block"
+import { DividerBlock } from "@/components/card/blocks/divider-block"
+import { GalleryBlock } from "@/components/card/blocks/gallery-block"
+import { ImageBlock } from "@/components/card/blocks/image-block"
+import { LeadFormBlock } from "@/components/card/blocks/lead-form-block"
+import { LinkListBlock } from "@/components/card/blocks/link-list-block"
+import { QuoteBlock } from "@/components/card/blocks/quote-block"
+import { TextBlock } from "@/components/card/blocks/text-block"
+import { VideoBlock } from "@/components/card/blocks/video-block"
+import type { CardBlock, CardBlockType, CardProfile } from "@/lib/card-profile"
+
+/** Renderers get the card's slug for blocks that talk to its routes. */
+const blockRenderers: { [T in CardBlockType]: ComponentType<{ slug: string; block: Extract<CardBlock, { type: T }> }> } = {
+  text: TextBlock,
+  image: ImageBlock,
+  video: VideoBlock,
+  links: LinkListBlock,
+  divider: DividerBlock,
+  quote: QuoteBlock,
+  gallery: GalleryBlock,
+  "lead-form": LeadFormBlock,
+  booking: BookingBlock,
+}
+
+function BlockRenderer({ slug, block }: { slug: string; block: CardBlock }) {
+  const Renderer = blockRenderers[block.type] as ComponentType<{ slug: string; block: CardBlock }>
+  return <Renderer slug={slug} block={block} />
+}
+
+/** The profile's content blocks, top to bottom. */
+export function BlocksSection({ slug, profile, className }: { slug: string; profile: CardProfile; className?: string }) {
+  const blocks = profile.blocks?.filter((block) => !block.hidden) ?? []
+  if (blocks.length === 0) return null
+
+  return (
+    <div className={className}>
+      <div className="space-y-6">
+        {blocks.map((block) => (
+          <BlockRenderer key={block.id} slug={slug} block={block} />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useMemo } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { BlockHeading } from "@/components/card/blocks/block-heading"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import {
+  getLeadField,
+  isLeadFieldOptional,
+  leadFieldIds,
+  leadSubmissionSchema,
+  type LeadFormBlock as LeadFormBlockData,
+} from "@/lib/leads"
+
+type LeadFormValues = Record<string, string | boolean>
+
+/** A form visitors fill in to leave their details for the card's owner. */
+export function LeadFormBlock({ slug, block }: { slug: string; block: LeadFormBlockData }) {
+  const { toast } = useToast()
+  const shown = leadFieldIds.filter((id) => block.fields[id] !== "hidden")
+  const schema = useMemo(() => leadSubmissionSchema(block), [block])
+  const form = useForm<LeadFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { ...Object.fromEntries(shown.map((id) => [id, ""])), consent: false },
+  })
+
+  const onSubmit = async (values: LeadFormValues) => {
+    const response = await fetch(`/c/${slug}/leads`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ blockId: block.id, values }),
+    }).catch(() => null)
+    if (!response?.ok) {
+      const { error } = (await response?.json().catch(() => null)) ?? {}
+      toast({
+        variant: "destructive",
+        title: "Could not send your details",
+        description: error ?? "Check your connection and try again.",
+      })
+      return
+    }
+    form.reset()
+    toast({ title: "Thanks! Your details were sent." })
+  }
+
+  return (
+    <section>
+      {block.title && <BlockHeading>{block.title}</BlockHeading>}
+      {block.intro && <p className="mb-3 text-muted-foreground text-[0.875em]">{block.intro}</p>}
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-3" noValidate>
+          {shown.map((id) => {
+            const { label, input, autoComplete } = getLeadField(id)
+            const optional = isLeadFieldOptional(block, id)
+            return (
+              <FormField
+                key={id}
+                control={form.control}
+                name={id}
+                render={({ field }) => {
+                  const value = typeof field.value === "string" ? field.value : ""
+                  return (
+                    <FormItem>
+                      <FormLabel className="text-card-foreground">
+                        {label}
+                        {optional && <span className="font-normal text-muted-foreground"> (optional)</span>}
+                      </FormLabel>
+                      <FormControl>
+                        {input === "textarea" ? (
+                          <Textarea {...field} value={value} autoComplete={autoComplete} rows={3} />
+                        ) : (
+                          <Input {...field} value={value} type={input} autoComplete={autoComplete} />
+                        )}
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )
+                }}
+              />
+            )
+          })}
+          {block.consent && (
+            <FormField
+              control={form.control}
+              name="consent"
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex items-start gap-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value === true}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        // 24px keeps it a comfortable tap target; the label toggles it too.
+                        className="h-6 w-6"
+                      />
+                    </FormControl>
+                    <FormLabel className="pt-1 font-normal leading-snug text-card-foreground">{block.consent}</FormLabel>
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <Button type="submit" className="w-full rounded-full" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting ? "Sending…" : block.submitLabel || "Send my details"}
+          </Button>
+        </form>
+      </Form>
+    </section>
+  )
+}
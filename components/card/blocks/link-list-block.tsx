@@ -0,0 +1,29 @@
+import { ChevronRight } from "lucide-react"
+import { BlockHeading } from "@/components/card/blocks/block-heading"
+import type { CardBlock } from "@/lib/card-profile"
+
+export function LinkListBlock({ block }: { block: Extract<CardBlock, { type: "links" }> }) {
+  return (
+    <section>
+      {block.title && <BlockHeading>{block.title}</BlockHeading>}
+      <ul className="space-y-2">
+        {block.links.map((link, index) => {
+          const external = /^https?:/i.test(link.href)
+          return (
+            <li key={index}>
+              <a
+                href={link.href}
+                target={external ? "_blank" : undefined}
+                rel={external ? "noopener noreferrer" : undefined}
+                className="flex items-center gap-2 rounded-lg border border-card-accent/15 bg-gradient-to-r from-card-surface to-card-surface-end px-4 py-3 font-medium text-card-foreground shadow-sm transition-all hover:from-card-surface-hover hover:to-card-surface-hover-end hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <span className="flex-1">{link.label}</span>
+                <ChevronRight className="w-4 h-4 text-card-accent" />
+              </a>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,12 @@
+import type { CardBlock } from "@/lib/card-profile"
+
+export function QuoteBlock({ block }: { block: Extract<CardBlock, { type: "quote" }> }) {
+  return (
+    <figure className="border-l-4 border-card-accent pl-4">
+      <blockquote className="font-heading text-[1.125em] italic text-card-foreground">{block.text}</blockquote>
+      {block.attribution && (
+        <figcaption className="mt-2 text-muted-foreground text-[0.875em]">— {block.attribution}</figcaption>
+      )}
+    </figure>
+  )
+}
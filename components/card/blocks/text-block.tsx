@@ -0,0 +1,70 @@
+import { BlockHeading } from "@/components/card/blocks/block-heading"
+import type { CardBlock } from "@/lib/card-profile"
+import { parseRichText, type RichInline } from "@/lib/rich-text"
+
+function Inline({ nodes }: { nodes: RichInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => (
+        <InlineNode key={index} node={node} />
+      ))}
+    </>
+  )
+}
+
+function InlineNode({ node }: { node: RichInline }) {
+  switch (node.type) {
+    case "text":
+      return <>{node.text}</>
+    case "strong":
+      return (
+        <strong className="font-semibold">
+          <Inline nodes={node.children} />
+        </strong>
+      )
+    case "em":
+      return (
+        <em>
+          <Inline nodes={node.children} />
+        </em>
+      )
+    case "link": {
+      const external = /^https?:/i.test(node.href)
+      return (
+        <a
+          href={node.href}
+          target={external ? "_blank" : undefined}
+          rel={external ? "noopener noreferrer" : undefined}
+          className="text-primary underline underline-offset-2 hover:text-primary/80"
+        >
+          <Inline nodes={node.children} />
+        </a>
+      )
+    }
+  }
+}
+
+export function TextBlock({ block }: { block: Extract<CardBlock, { type: "text" }> }) {
+  return (
+    <section>
+      {block.title && <BlockHeading>{block.title}</BlockHeading>}
+      <div className="space-y-3 text-card-foreground/90">
+        {parseRichText(block.body).map((part, index) =>
+          part.type === "list" ? (
+            <ul key={index} className="list-disc space-y-1 pl-5">
+              {part.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <Inline nodes={item} />
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p key={index}>
+              <Inline nodes={part.children} />
+            </p>
+          ),
+        )}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,21 @@
+import type { CardBlock } from "@/lib/card-profile"
+import { parseVideoEmbed } from "@/lib/video-embed"
+
+export function VideoBlock({ block }: { block: Extract<CardBlock, { type: "video" }> }) {
+  const embed = parseVideoEmbed(block.url)
+  if (!embed) return null
+
+  return (
+    <div className="aspect-video overflow-hidden rounded-lg bg-muted">
+      <iframe
+        src={embed.src}
+        title={block.title}
+        loading="lazy"
+        allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+        allowFullScreen
+        referrerPolicy="strict-origin-when-cross-origin"
+        className="h-full w-full border-0"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,447 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { MapPin, X } from "lucide-react"
+import { useLiveBanners } from "@/hooks/use-live-banners"
+import { getBannerIcon, resolveBanners, type BannerVariant } from "@/lib/banners"
+import type { CardIdentity, CardProfile, CoverMedia, ImageAsset } from "@/lib/card-profile"
+import { getContactChannel, resolveContactAction } from "@/lib/contact-methods"
+import { coverGradientImage, defaultCover } from "@/lib/cover"
+import { coverPatternImage } from "@/lib/cover-patterns"
+import { ctaAnimationProps } from "@/lib/cta-animation"
+import { cn } from "@/lib/utils"
+
+interface SectionProps {
+  profile: CardProfile
+  className?: string
+}
+
+/** Live banners take turns this often, unless the visitor is hovering or focused on one. */
+const BANNER_ROTATE_MS = 6000
+
+const BANNER_STYLES: Record<BannerVariant, { cover: string; strip: string }> = {
+  glass: {
+    cover: "bg-white/20 backdrop-blur-sm text-white hover:bg-white/30",
+    strip: "bg-card-accent/15 text-card-foreground hover:bg-card-accent/25",
+  },
+  solid: {
+    cover: "bg-primary text-primary-foreground hover:bg-primary/90",
+    strip: "bg-primary text-primary-foreground hover:bg-primary/90",
+  },
+  dark: {
+    cover: "bg-black/60 backdrop-blur-sm text-white hover:bg-black/70",
+    strip: "bg-foreground text-background hover:bg-foreground/90",
+  },
+}
+
+interface AnnouncementsProps {
+  profile: CardProfile
+  /** `cover` floats over the top of a cover; `strip` is a full-width bar for layouts without one. */
+  placement: "cover" | "strip"
+  className?: string
+}
+
+/** The card's live announcement banners, one at a time. */
+function Announcements({ profile, placement, className }: AnnouncementsProps) {
+  const { banners, dismiss } = useLiveBanners(resolveBanners(profile))
+  const [index, setIndex] = useState(0)
+  const [paused, setPaused] = useState(false)
+
+  useEffect(() => {
+    if (banners.length < 2 || paused) return
+    const timer = setInterval(() => setIndex((value) => value + 1), BANNER_ROTATE_MS)
+    return () => clearInterval(timer)
+  }, [banners.length, paused])
+
+  if (banners.length === 0) return null
+  const banner = banners[index % banners.length]
+  const { icon: Icon } = getBannerIcon(banner.icon)
+  const variant = banner.variant ?? (placement === "cover" ? "glass" : "solid")
+  const onCover = placement === "cover"
+
+  return (
+    <div
+      className={cn(onCover && "absolute top-4 left-1/2 transform -translate-x-1/2 z-20 w-full px-4", className)}
+      onMouseEnter={() => setPaused(true)}
+      onMouseLeave={() => setPaused(false)}
+      onFocus={() => setPaused(true)}
+      onBlur={() => setPaused(false)}
+    >
+      <div
+        className={cn(
+          "flex items-center text-[0.875em] font-medium transition-colors duration-200",
+          onCover && "rounded-lg",
+          BANNER_STYLES[variant][placement],
+        )}
+      >
+        <a
+          href={banner.href}
+          className={cn("flex flex-1 min-w-0 items-center justify-center gap-2 text-center", onCover ? "px-3 py-2" : "px-4 py-2")}
+        >
+          <Icon className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{banner.text}</span>
+        </a>
+        {banner.dismissible && banner.id && (
+          <button
+            type="button"
+            onClick={() => dismiss(banner.id!)}
+            aria-label="Dismiss announcement"
+            className="flex h-9 w-9 flex-shrink-0 items-center justify-center opacity-80 hover:opacity-100"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface IdentityTextProps {
+  identity: CardIdentity
+  align?: "center" | "left"
+  /** `image` sets light text for use over a photo. */
+  tone?: "surface" | "image"
+}
+
+function IdentityText({ identity, align = "center", tone = "surface" }: IdentityTextProps) {
+  const onImage = tone === "image"
+  return (
+    <div className={align === "center" ? "text-center" : "text-left"}>
+      <h2
+        className={cn(
+          "font-heading text-[length:var(--card-heading-size)] [font-weight:var(--card-heading-weight)] mb-1",
+          onImage ? "text-white" : "text-card-foreground",
+        )}
+      >
+        {identity.name}
+      </h2>
+      {identity.title && <p className={cn("font-semibold mb-1", onImage ? "text-white/90" : "text-primary")}>{identity.title}</p>}
+      {identity.organization && (
+        <p className={cn("font-medium mb-2", onImage ? "text-white/80" : "text-card-foreground/80")}>{identity.organization}</p>
+      )}
+      {identity.location && (
+        <div
+          className={cn(
+            "flex items-center gap-1 text-[0.875em]",
+            align === "center" ? "justify-center" : "justify-start",
+            onImage ? "text-white/80" : "text-muted-foreground",
+          )}
+        >
+          <MapPin className={cn("w-4 h-4", onImage ? "text-white/80" : "text-card-accent")} />
+          <span>{identity.location}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function BrandBadge({ logo, className }: { logo: ImageAsset; className?: string }) {
+  return (
+    <div className={cn("w-10 h-10 bg-white rounded-full p-2 shadow-lg", className)}>
+      {logo.src && <Image src={logo.src} alt={logo.alt} width={24} height={24} className="w-full h-full object-contain" />}
+    </div>
+  )
+}
+
+type MediaOf<K extends CoverMedia["kind"]> = Extract<CoverMedia, { kind: K }>
+
+/**
+ * A muted loop that only starts for visitors who allow motion; everyone else
+ * keeps the poster frame.
+ */
+function CoverVideo({ media }: { media: MediaOf<"video"> }) {
+  const ref = useRef<HTMLVideoElement>(null)
+
+  useEffect(() => {
+    const video = ref.current
+    if (!video || window.matchMedia("(prefers-reduced-motion: reduce)").matches) return
+    // Browsers may still refuse to autoplay, which leaves the poster showing.
+    video.play().catch(() => {})
+  }, [media.src])
+
+  return (
+    <video
+      ref={ref}
+      src={media.src}
+      poster={media.poster || undefined}
+      muted
+      loop
+      playsInline
+      preload="metadata"
+      aria-hidden
+      className="absolute inset-0 w-full h-full object-cover"
+    />
+  )
+}
+
+function CoverMediaLayer({ media }: { media: CoverMedia }) {
+  switch (media.kind) {
+    case "theme":
+      return (
+        <div className="absolute inset-0 overflow-hidden bg-gradient-to-br from-cover-from via-cover-via to-cover-to">
+          <div className="absolute -top-40 -right-40 w-80 h-80 bg-white/5 rounded-full blur-3xl motion-safe:animate-pulse"></div>
+          <div className="absolute -bottom-40 -left-40 w-80 h-80 bg-white/3 rounded-full blur-3xl motion-safe:animate-pulse [animation-delay:1s]"></div>
+          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-96 h-96 bg-gradient-to-r from-white/3 to-transparent rounded-full blur-2xl"></div>
+        </div>
+      )
+    case "image":
+      return media.image.src ? (
+        <Image
+          src={media.image.src}
+          alt={media.image.alt}
+          fill
+          sizes="(min-width: 768px) 768px, 100vw"
+          className="object-cover"
+          style={{ objectPosition: `${media.focalPoint.x}% ${media.focalPoint.y}%` }}
+          priority
+        />
+      ) : null
+    case "video":
+      return media.src ? <CoverVideo key={media.src} media={media} /> : null
+    case "pattern":
+      return (
+        <div
+          className="absolute inset-0"
+          style={{ backgroundColor: media.background, backgroundImage: coverPatternImage(media.pattern, media.color) }}
+        />
+      )
+    case "gradient":
+      return <div className="absolute inset-0" style={{ backgroundImage: coverGradientImage(media) }} />
+  }
+}
+
+export function CoverSection({ profile, className }: SectionProps) {
+  const { media, overlay } = profile.cover ?? defaultCover
+
+  return (
+    // The theme gradient also shows while image and video covers load.
+    <div className={cn("relative bg-gradient-to-br from-cover-from via-cover-via to-cover-to overflow-hidden h-40", className)}>
+      <CoverMediaLayer media={media} />
+      {overlay.opacity > 0 && (
+        <div className="absolute inset-0" style={{ backgroundColor: overlay.color, opacity: overlay.opacity }} />
+      )}
+
+      {/* Alert/Highlight Message - Centered */}
+      <Announcements profile={profile} placement="cover" />
+    </div>
+  )
+}
+
+interface ProfileSectionProps extends SectionProps {
+  align?: "center" | "left"
+}
+
+/**
+ * The avatar overhangs the top of the profile card by half its height: 64px
+ * when centered, 48px for the smaller left-aligned avatar.
+ */
+export function ProfileSection({ profile, align = "center", className }: ProfileSectionProps) {
+  const { identity, branding } = profile
+  const centered = align === "center"
+
+  return (
+    <div className={className}>
+      <div className="relative">
+        {/* Profile Image */}
+        <div
+          className={cn(
+            "absolute z-30",
+            centered ? "-top-16 left-1/2 transform -translate-x-1/2" : "-top-12 left-4",
+          )}
+        >
+          <div className={cn("relative", centered ? "w-32 h-32" : "w-24 h-24")}>
+            <div className="w-full h-full rounded-full overflow-hidden border-4 border-card shadow-2xl">
+              {identity.avatar.src && (
+                <Image
+                  src={identity.avatar.src}
+                  alt={identity.avatar.alt}
+                  width={128}
+                  height={128}
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+            <BrandBadge logo={branding.logo} className="absolute -bottom-1 -right-1" />
+          </div>
+        </div>
+
+        {/* Profile Info Card */}
+        <Card
+          className={cn(
+            "bg-gradient-to-r from-card-surface to-card-surface-end backdrop-blur-sm border border-card-accent/15 shadow-sm",
+            centered ? "pt-16" : "pt-12",
+          )}
+        >
+          <CardContent className="p-4">
+            <IdentityText identity={identity} align={align} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+interface PhotoHeroSectionProps extends SectionProps {
+  /** Overlay the name and title on the photo instead of leaving that to a profile section. */
+  showIdentity: boolean
+}
+
+/** A full-bleed avatar photo in place of the gradient cover. */
+export function PhotoHeroSection({ profile, showIdentity, className }: PhotoHeroSectionProps) {
+  const { identity, branding } = profile
+
+  return (
+    <div className={cn("relative h-80 overflow-hidden bg-gradient-to-br from-cover-from via-cover-via to-cover-to", className)}>
+      {identity.avatar.src && (
+        <Image
+          src={identity.avatar.src}
+          alt={identity.avatar.alt}
+          fill
+          sizes="(min-width: 768px) 384px, 100vw"
+          className="object-cover"
+          priority
+        />
+      )}
+      <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-black/10 to-transparent" />
+      <Announcements profile={profile} placement="cover" />
+      {showIdentity && (
+        <div className="absolute inset-x-0 bottom-0 flex items-end gap-3 p-5">
+          <div className="flex-1 min-w-0">
+            <IdentityText identity={identity} align="left" tone="image" />
+          </div>
+          <BrandBadge logo={branding.logo} className="flex-shrink-0" />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Name, title and location as plain text, with no avatar or surface. */
+export function TextProfileSection({ profile, className }: SectionProps) {
+  return (
+    <div className={className}>
+      <IdentityText identity={profile.identity} />
+    </div>
+  )
+}
+
+/** The banner as a plain strip, for layouts without a cover. */
+export function BannerStripSection({ profile, className }: SectionProps) {
+  return <Announcements profile={profile} placement="strip" className={className} />
+}
+
+interface SaveContactSectionProps extends SectionProps {
+  slug: string
+}
+
+export function SaveContactSection({ slug, profile, className }: SaveContactSectionProps) {
+  const animation = ctaAnimationProps(profile.ctaAnimation)
+
+  return (
+    <div className={className}>
+      <Button
+        asChild
+        // Remounting replays the animation whenever its settings change in the designer.
+        key={JSON.stringify(profile.ctaAnimation)}
+        className={cn(
+          "w-full bg-primary hover:bg-primary/90 text-primary-foreground font-semibold py-3 rounded-full shadow-lg transition-all duration-200 hover:shadow-xl text-[1em]",
+          animation.className,
+        )}
+        style={animation.style}
+      >
+        <a href={`/c/${slug}/contact.vcf`} download>
+          Save Contact
+        </a>
+      </Button>
+    </div>
+  )
+}
+
+interface ContactsSectionProps extends SectionProps {
+  /** `list` renders plain rows instead of icon cards. */
+  variant?: "cards" | "list"
+}
+
+export function ContactsSection({ profile, variant = "cards", className }: ContactsSectionProps) {
+  const contacts = profile.contacts.filter((contact) => !contact.hidden)
+
+  if (variant === "list") {
+    return (
+      <div className={className}>
+        <ul className="divide-y divide-border border-y border-border">
+          {contacts.map((contact, index) => {
+            const channel = getContactChannel(contact.kind)
+            const Icon = channel.icon
+            const action = resolveContactAction(contact)
+            return (
+              <li key={`${contact.kind}-${index}`}>
+                <a
+                  href={action.href}
+                  target={action.external ? "_blank" : undefined}
+                  rel={action.external ? "noopener noreferrer" : undefined}
+                  className="flex items-center gap-3 py-3 text-card-foreground hover:text-primary transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  <Icon className="w-4 h-4 text-card-accent flex-shrink-0" />
+                  <span className="flex-1 font-medium">{contact.label || channel.label}</span>
+                  <span className="text-muted-foreground text-[0.875em] truncate">{contact.subtitle || channel.subtitle}</span>
+                </a>
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+    )
+  }
+
+  return (
+    <div className={className}>
+      <div className="space-y-3">
+        {contacts.map((contact, index) => {
+          const channel = getContactChannel(contact.kind)
+          const Icon = channel.icon
+          const action = resolveContactAction(contact)
+          return (
+            <a
+              key={`${contact.kind}-${index}`}
+              href={action.href}
+              target={action.external ? "_blank" : undefined}
+              rel={action.external ? "noopener noreferrer" : undefined}
+              className="block group rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <Card className="bg-gradient-to-r from-card-surface to-card-surface-end backdrop-blur-sm border border-card-accent/15 group-hover:from-card-surface-hover group-hover:to-card-surface-hover-end transition-all duration-200 shadow-sm group-hover:shadow-md">
+                <CardContent className="p-4">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="w-12 h-12 rounded-lg flex items-center justify-center group-hover:scale-110 transition-transform shadow-sm"
+                      style={{ backgroundColor: channel.color }}
+                    >
+                      <Icon className="w-6 h-6 text-white" />
+                    </div>
+                    <div className="flex-1">
+                      <p className="text-card-foreground font-semibold">{contact.label || channel.label}</p>
+                      <p className="text-muted-foreground text-[0.875em]">{contact.subtitle || channel.subtitle}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </a>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export function FooterSection({ profile, className }: SectionProps) {
+  return (
+    <div className={className}>
+      <div className="text-center pt-4 border-t border-border">
+        <p className="text-muted-foreground text-[0.75em]">{profile.footer.text}</p>
+        <div className="flex items-center justify-center gap-1 mt-1"></div>
+      </div>
+    </div>
+  )
+}
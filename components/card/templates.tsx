@@ -0,0 +1,220 @@
+"use client"
+
+import { type ComponentType, type ReactNode } from "react"
+import { BlocksSection } from "@/components/card/blocks"
+import {
+  BannerStripSection,
+  ContactsSection,
+  CoverSection,
+  FooterSection,
+  PhotoHeroSection,
+  ProfileSection,
+  SaveContactSection,
+  TextProfileSection,
+} from "@/components/card/sections"
+import { resolveBanners } from "@/lib/banners"
+import { resolveSections, type CardProfile, type CardSectionId, type CardTemplateId } from "@/lib/card-profile"
+import { cn } from "@/lib/utils"
+
+export interface CardTemplateProps {
+  slug: string
+  profile: CardProfile
+}
+
+export interface CardTemplate {
+  label: string
+  description: string
+  component: ComponentType<CardTemplateProps>
+}
+
+type Slots = Record<CardSectionId, (className?: string) => ReactNode>
+type Spacing = (id: CardSectionId, previous: CardSectionId | undefined) => string | undefined
+
+const CARD_FRAME =
+  "w-full mx-auto bg-card rounded-none md:rounded-2xl shadow-none md:shadow-xl border-0 md:border border-border overflow-hidden relative pb-4"
+
+function visibleSectionIds(profile: CardProfile) {
+  return resolveSections(profile.sections)
+    .filter((section) => !section.hidden)
+    .map((section) => section.id)
+}
+
+function defaultSlots({ slug, profile }: CardTemplateProps): Slots {
+  return {
+    cover: (className) => <CoverSection profile={profile} className={className} />,
+    profile: (className) => <ProfileSection profile={profile} className={className} />,
+    saveContact: (className) => <SaveContactSection slug={slug} profile={profile} className={className} />,
+    contacts: (className) => <ContactsSection profile={profile} className={className} />,
+    blocks: (className) => <BlocksSection slug={slug} profile={profile} className={className} />,
+    footer: (className) => <FooterSection profile={profile} className={className} />,
+  }
+}
+
+/**
+ * Spacing for layouts whose profile card carries an overhanging avatar: the
+ * card tucks under the cover so the avatar can overlap it, and needs `inset`
+ * of room for the avatar anywhere else.
+ */
+function avatarSpacing(inset: { between: string; first: string }): Spacing {
+  return (id, previous) => {
+    if (id === "cover") return undefined
+    if (id === "profile") {
+      if (previous === "cover") return "px-4"
+      return previous ? cn("px-4 mt-6", inset.between) : cn("px-4", inset.first)
+    }
+    return previous ? "px-4 mt-6" : "px-4 pt-6"
+  }
+}
+
+const plainSpacing: Spacing = (id, previous) => {
+  if (id === "cover") return undefined
+  return previous ? "px-4 mt-6" : "px-4 pt-6"
+}
+
+/**
+ * Renders sections in order. Each is wrapped in a plain block tagged with its id
+ * so the designer can find it; margins still collapse through the wrapper.
+ */
+function SectionStack({ ids, slots, spacing }: { ids: CardSectionId[]; slots: Slots; spacing: Spacing }) {
+  return (
+    <>
+      {ids.map((id, index) => (
+        <div key={id} data-card-section={id}>
+          {slots[id](spacing(id, ids[index - 1]))}
+        </div>
+      ))}
+    </>
+  )
+}
+
+function ClassicTemplate(props: CardTemplateProps) {
+  return (
+    <div className={cn(CARD_FRAME, "md:max-w-sm")}>
+      <SectionStack
+        ids={visibleSectionIds(props.profile)}
+        slots={defaultSlots(props)}
+        spacing={avatarSpacing({ between: "pt-16", first: "pt-20" })}
+      />
+    </div>
+  )
+}
+
+function LeftAlignedTemplate(props: CardTemplateProps) {
+  const slots: Slots = {
+    ...defaultSlots(props),
+    profile: (className) => <ProfileSection profile={props.profile} align="left" className={className} />,
+  }
+  return (
+    <div className={cn(CARD_FRAME, "md:max-w-sm")}>
+      <SectionStack
+        ids={visibleSectionIds(props.profile)}
+        slots={slots}
+        spacing={avatarSpacing({ between: "pt-12", first: "pt-16" })}
+      />
+    </div>
+  )
+}
+
+/** The photo replaces the cover; it carries the name too unless the profile section is hidden. */
+function PhotoHeroTemplate(props: CardTemplateProps) {
+  const visible = visibleSectionIds(props.profile)
+  const heroCarriesProfile = visible.includes("cover")
+  const ids = heroCarriesProfile ? visible.filter((id) => id !== "profile") : visible
+  const slots: Slots = {
+    ...defaultSlots(props),
+    cover: (className) => (
+      <PhotoHeroSection profile={props.profile} showIdentity={visible.includes("profile")} className={className} />
+    ),
+    profile: (className) => <TextProfileSection profile={props.profile} className={className} />,
+  }
+  return (
+    <div className={cn(CARD_FRAME, "md:max-w-sm")}>
+      <SectionStack ids={ids} slots={slots} spacing={plainSpacing} />
+    </div>
+  )
+}
+
+/** Text only: no cover art, no avatar and plain contact rows. */
+function MinimalTemplate(props: CardTemplateProps) {
+  const { profile } = props
+  // Without a banner the cover has nothing left to show.
+  const ids = visibleSectionIds(profile).filter((id) => id !== "cover" || resolveBanners(profile).length > 0)
+  const slots: Slots = {
+    ...defaultSlots(props),
+    cover: (className) => <BannerStripSection profile={profile} className={className} />,
+    profile: (className) => <TextProfileSection profile={profile} className={className} />,
+    contacts: (className) => <ContactsSection profile={profile} variant="list" className={className} />,
+  }
+  return (
+    <div className={cn(CARD_FRAME, "md:max-w-sm")}>
+      <SectionStack
+        ids={ids}
+        slots={slots}
+        spacing={(id, previous) => (id === "cover" ? undefined : previous ? "px-6 mt-6" : "px-6 pt-8")}
+      />
+    </div>
+  )
+}
+
+/**
+ * On wider screens the cover and profile sit in a column beside everything
+ * else; on phones the columns stack like the classic card.
+ */
+function HorizontalTemplate(props: CardTemplateProps) {
+  const visible = visibleSectionIds(props.profile)
+  const identity = visible.filter((id) => id === "cover" || id === "profile")
+  const details = visible.filter((id) => id !== "cover" && id !== "profile")
+  const slots = defaultSlots(props)
+
+  return (
+    <div className={cn(CARD_FRAME, "md:max-w-3xl md:grid md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] md:pb-0")}>
+      {identity.length > 0 && (
+        <div className="md:border-r md:border-border md:pb-6">
+          <SectionStack ids={identity} slots={slots} spacing={avatarSpacing({ between: "pt-16", first: "pt-20" })} />
+        </div>
+      )}
+      <div className="md:pt-2 md:pb-6">
+        <SectionStack
+          ids={details}
+          slots={slots}
+          spacing={(_, previous) => (previous ? "px-4 mt-6" : identity.length > 0 ? "px-4 mt-6 md:mt-4" : "px-4 pt-6")}
+        />
+      </div>
+    </div>
+  )
+}
+
+/** Every layout a card can use. The keys are the `template` values stored in profiles. */
+const cardTemplates = {
+  classic: {
+    label: "Classic",
+    description: "Gradient cover with a centered avatar",
+    component: ClassicTemplate,
+  },
+  "left-aligned": {
+    label: "Left aligned",
+    description: "Smaller avatar and text aligned to the left",
+    component: LeftAlignedTemplate,
+  },
+  "photo-hero": {
+    label: "Photo hero",
+    description: "Full-bleed photo with your name over it",
+    component: PhotoHeroTemplate,
+  },
+  minimal: {
+    label: "Minimal",
+    description: "Text only, with plain contact links",
+    component: MinimalTemplate,
+  },
+  horizontal: {
+    label: "Horizontal",
+    description: "Two columns on desktop, stacked on phones",
+    component: HorizontalTemplate,
+  },
+} satisfies Record<CardTemplateId, CardTemplate>
+
+export const cardTemplateIds = Object.keys(cardTemplates) as CardTemplateId[]
+
+export function getCardTemplate(id: CardTemplateId = "classic"): CardTemplate {
+  return cardTemplates[id]
+}
@@ -0,0 +1,35 @@
+"use client"
+
+import { getCardTemplate } from "@/components/card/templates"
+import type { CardProfile } from "@/lib/card-profile"
+import { cardThemeVariables, resolveColorScheme } from "@/lib/card-theme"
+import { cardTypographyVariables } from "@/lib/fonts"
+import { cn } from "@/lib/utils"
+
+interface DelightCardLandingProps {
+  slug: string
+  profile: CardProfile
+  /** The visitor's system scheme, when known, for cards that follow it. */
+  systemScheme?: "light" | "dark"
+  className?: string
+}
+
+export default function DelightCardLanding({ slug, profile, systemScheme, className }: DelightCardLandingProps) {
+  const Template = getCardTemplate(profile.template).component
+  // A fixed scheme sets its own tokens; otherwise the card inherits the page's.
+  const scheme = resolveColorScheme(profile.theme?.colorScheme, systemScheme)
+
+  return (
+    <div
+      className={cn(
+        "card-theme min-h-screen bg-muted text-foreground py-0 md:py-8",
+        "font-body text-[length:var(--card-body-size)] [font-weight:var(--card-body-weight)]",
+        scheme,
+        className,
+      )}
+      style={{ ...cardThemeVariables(profile.theme, systemScheme), ...cardTypographyVariables(profile.typography) }}
+    >
+      <Template slug={slug} profile={profile} />
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { CircleAlert, CircleCheck, TriangleAlert } from "lucide-react"
+import type { TouchTargetFinding } from "@/hooks/use-accessibility-audit"
+import type { AuditFinding, AuditRule } from "@/lib/card-audit"
+import { cn } from "@/lib/utils"
+
+const RULE_LABELS: Record<AuditRule, string> = {
+  contrast: "Contrast",
+  "alt-text": "Alt text",
+  "link-text": "Link text",
+  "touch-target": "Touch target",
+}
+
+interface AccessibilityPanelProps {
+  findings: (AuditFinding | TouchTargetFinding)[]
+  previewRoot: HTMLElement | null
+}
+
+/** Lists audit findings; hovering, focusing or clicking one outlines the block it is about in the preview. */
+export function AccessibilityPanel({ findings, previewRoot }: AccessibilityPanelProps) {
+  const highlighted = useRef<HTMLElement | null>(null)
+
+  const clear = () => {
+    highlighted.current?.removeAttribute("data-audit-highlight")
+    highlighted.current = null
+  }
+
+  const highlight = (finding: AuditFinding | TouchTargetFinding) => {
+    clear()
+    const target =
+      "element" in finding
+        ? finding.element
+        : finding.section && previewRoot?.querySelector<HTMLElement>(`[data-card-section="${finding.section}"]`)
+    if (!target) return
+    target.setAttribute("data-audit-highlight", "")
+    highlighted.current = target
+    return target
+  }
+
+  useEffect(() => clear, [])
+
+  if (findings.length === 0) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CircleCheck className="h-4 w-4 text-primary" />
+        No problems found.
+      </p>
+    )
+  }
+
+  const sorted = [...findings].sort((a, b) => Number(a.severity === "warning") - Number(b.severity === "warning"))
+
+  return (
+    <ul className="space-y-1" aria-label="Accessibility findings">
+      {sorted.map((finding) => {
+        const Icon = finding.severity === "error" ? CircleAlert : TriangleAlert
+        return (
+          <li key={finding.id}>
+            <button
+              type="button"
+              onMouseEnter={() => highlight(finding)}
+              onMouseLeave={clear}
+              onFocus={() => highlight(finding)}
+              onBlur={clear}
+              onClick={() => highlight(finding)?.scrollIntoView({ behavior: "smooth", block: "center" })}
+              className="flex w-full items-start gap-2 rounded-md p-2 text-left text-sm hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <Icon
+                className={cn(
+                  "mt-0.5 h-4 w-4 flex-shrink-0",
+                  finding.severity === "error" ? "text-destructive" : "text-amber-500",
+                )}
+                aria-label={finding.severity === "error" ? "Error" : "Warning"}
+              />
+              <span>
+                <span className="font-medium">{RULE_LABELS[finding.rule]}</span>
+                <span className="text-muted-foreground"> · {finding.message}</span>
+              </span>
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
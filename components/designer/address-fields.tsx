@@ -0,0 +1,43 @@
+"use client"
+
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import type { CardProfile } from "@/lib/card-profile"
+
+export function AddressFields() {
+  const { control } = useFormContext<CardProfile>()
+  const { fields, append, remove } = useFieldArray({ control, name: "addresses" })
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field, index) => (
+        <div key={field.id} className="space-y-3 rounded-lg border p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold">Address {index + 1}</p>
+            <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label="Remove address">
+              <Trash2 />
+            </Button>
+          </div>
+          <TextField name={`addresses.${index}.street`} label="Street" />
+          <div className="grid grid-cols-2 gap-3">
+            <TextField name={`addresses.${index}.locality`} label="City" />
+            <TextField name={`addresses.${index}.region`} label="State / region" />
+            <TextField name={`addresses.${index}.postalCode`} label="Postal code" />
+            <TextField name={`addresses.${index}.country`} label="Country" />
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={() => append({ types: ["work"], street: "", locality: "", region: "", postalCode: "", country: "" })}
+      >
+        <Plus />
+        Add address
+      </Button>
+    </div>
+  )
+}
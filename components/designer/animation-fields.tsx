@@ -0,0 +1,113 @@
+"use client"
+
+import { useFormContext } from "react-hook-form"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import type { CardProfile, CtaAnimationPreset } from "@/lib/card-profile"
+import { ctaAnimationPresets } from "@/lib/cta-animation"
+
+interface SecondsSliderProps {
+  name: "ctaAnimation.duration" | "ctaAnimation.delay"
+  label: string
+  min: number
+  max: number
+}
+
+function SecondsSlider({ name, label, min, max }: SecondsSliderProps) {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex items-center justify-between">
+            <FormLabel>{label}</FormLabel>
+            <span className="text-muted-foreground text-sm">{field.value}s</span>
+          </div>
+          <FormControl>
+            <Slider min={min} max={max} step={0.1} value={[field.value ?? min]} onValueChange={([value]) => field.onChange(value)} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function AnimationFields() {
+  const { control, watch, setValue } = useFormContext<CardProfile>()
+  const preset = watch("ctaAnimation.preset")
+  const repeat = watch("ctaAnimation.repeat")
+  const loops = repeat === "infinite"
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={control}
+        name="ctaAnimation.preset"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Save Contact animation</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {(Object.keys(ctaAnimationPresets) as CtaAnimationPreset[]).map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {ctaAnimationPresets[id].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Visitors who turn on reduced motion always see a still button.</FormDescription>
+          </FormItem>
+        )}
+      />
+
+      {preset !== "none" && (
+        <>
+          <SecondsSlider name="ctaAnimation.duration" label="Duration" min={0.2} max={10} />
+          <SecondsSlider name="ctaAnimation.delay" label="Delay" min={0} max={30} />
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <Label htmlFor="cta-loop">Repeat forever</Label>
+            <Switch
+              id="cta-loop"
+              checked={loops}
+              onCheckedChange={(checked) => setValue("ctaAnimation.repeat", checked ? "infinite" : 2, { shouldDirty: true })}
+            />
+          </div>
+          {!loops && (
+            <FormField
+              control={control}
+              name="ctaAnimation.repeat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Times to play</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={20}
+                      {...field}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber || 1)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
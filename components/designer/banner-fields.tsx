@@ -0,0 +1,184 @@
+"use client"
+
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { SortableList } from "@/components/designer/sortable-list"
+import { TextField, type TextFieldPath } from "@/components/designer/text-field"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  bannerIconIds,
+  bannerStatus,
+  bannerVariantIds,
+  bannerVariantLabels,
+  getBannerIcon,
+  type BannerStatus,
+} from "@/lib/banners"
+import type { CardProfile } from "@/lib/card-profile"
+
+const STATUS_LABELS: Record<BannerStatus, string> = {
+  scheduled: "Scheduled",
+  live: "Live",
+  ended: "Ended",
+}
+
+/** `datetime-local` inputs speak local time without a zone; profiles store ISO instants. */
+function toLocalInput(iso?: string) {
+  if (!iso) return ""
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
+}
+
+function DateTimeField({ name, label }: { name: TextFieldPath; label: string }) {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="datetime-local"
+              name={field.name}
+              ref={field.ref}
+              onBlur={field.onBlur}
+              value={toLocalInput(field.value)}
+              onChange={(event) => field.onChange(event.target.value ? new Date(event.target.value).toISOString() : undefined)}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+/**
+ * The card's announcement queue. Banners show between their start and end
+ * times; when several are live at once they take turns in list order.
+ */
+export function BannerFields() {
+  const { control, watch } = useFormContext<CardProfile>()
+  // Banners carry their own `id`, so the generated field key needs another name.
+  const { fields, append, remove, move } = useFieldArray({ control, name: "banners", keyName: "key" })
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">
+        Live banners take turns at the top of the card, in this order. Times use your time zone.
+      </p>
+      <SortableList
+        items={fields}
+        getKey={(field) => field.key}
+        getLabel={(_, index) => watch(`banners.${index}.text`) || `Banner ${index + 1}`}
+        onMove={move}
+        className="space-y-4"
+      >
+        {(field, index, handle) => {
+          const banner = watch(`banners.${index}`)
+          const status = bannerStatus(banner)
+          return (
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                {handle}
+                <p className="flex-1 truncate text-sm font-medium">{banner.text || `Banner ${index + 1}`}</p>
+                <Badge variant={status === "live" ? "default" : "secondary"}>{STATUS_LABELS[status]}</Badge>
+                <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label="Remove banner">
+                  <Trash2 />
+                </Button>
+              </div>
+              <TextField name={`banners.${index}.text`} label="Text" placeholder="New feature: Check out our latest updates!" />
+              <TextField name={`banners.${index}.href`} label="Link" placeholder="https://" />
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={control}
+                  name={`banners.${index}.icon`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Icon</FormLabel>
+                      <Select value={field.value ?? "info"} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {bannerIconIds.map((id) => {
+                            const { label, icon: Icon } = getBannerIcon(id)
+                            return (
+                              <SelectItem key={id} value={id}>
+                                <span className="flex items-center gap-2">
+                                  <Icon className="h-4 w-4" />
+                                  {label}
+                                </span>
+                              </SelectItem>
+                            )
+                          })}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={control}
+                  name={`banners.${index}.variant`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Style</FormLabel>
+                      <Select value={field.value ?? "glass"} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {bannerVariantIds.map((id) => (
+                            <SelectItem key={id} value={id}>
+                              {bannerVariantLabels[id]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <DateTimeField name={`banners.${index}.startsAt`} label="Starts" />
+                <DateTimeField name={`banners.${index}.endsAt`} label="Ends" />
+              </div>
+              <FormField
+                control={control}
+                name={`banners.${index}.dismissible`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between space-y-0">
+                    <FormLabel className="font-normal">Visitors can dismiss it</FormLabel>
+                    <FormControl>
+                      <Switch checked={Boolean(field.value)} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+          )
+        }}
+      </SortableList>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => append({ id: crypto.randomUUID(), text: "", href: "", icon: "info", variant: "glass" })}
+      >
+        <Plus />
+        Add banner
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { Eye, EyeOff, Plus, Trash2 } from "lucide-react"
+import { blockEditors } from "@/components/designer/blocks"
+import { SortableList } from "@/components/designer/sortable-list"
+import { Button } from "@/components/ui/button"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { cardBlockTypes, getCardBlockKind } from "@/lib/card-blocks"
+import type { CardProfile } from "@/lib/card-profile"
+import { cn } from "@/lib/utils"
+
+export function BlockFields() {
+  const { control, watch, setValue } = useFormContext<CardProfile>()
+  // Blocks carry their own `id`, so the generated field key needs another name.
+  const { fields, append, remove, move } = useFieldArray({ control, name: "blocks", keyName: "key" })
+
+  return (
+    <div className="space-y-4">
+      <p className="text-muted-foreground text-sm">Blocks appear in this order below your contact methods.</p>
+      <SortableList
+        items={fields}
+        getKey={(field) => field.key}
+        getLabel={(field, index) => `${getCardBlockKind(field.type).label} block ${index + 1}`}
+        onMove={move}
+        className="space-y-4"
+      >
+        {(field, index, handle) => {
+          const kind = getCardBlockKind(field.type)
+          const Editor = blockEditors[field.type]
+          const hidden = watch(`blocks.${index}.hidden`)
+          return (
+            <div className={cn("space-y-3 rounded-lg border p-3", hidden && "bg-muted/50")}>
+              <div className="flex items-center gap-2">
+                {handle}
+                <kind.icon className="h-4 w-4 text-muted-foreground" />
+                <p className="flex-1 text-sm font-medium">{kind.label}</p>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setValue(`blocks.${index}.hidden`, !hidden, { shouldDirty: true })}
+                  aria-label={hidden ? `Show ${kind.label} block on card` : `Hide ${kind.label} block from card`}
+                  aria-pressed={Boolean(hidden)}
+                >
+                  {hidden ? <EyeOff /> : <Eye />}
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label={`Remove ${kind.label} block`}>
+                  <Trash2 />
+                </Button>
+              </div>
+              <Editor index={index} />
+            </div>
+          )
+        }}
+      </SortableList>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" className="w-full">
+            <Plus />
+            Add block
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {cardBlockTypes.map((type) => {
+            const kind = getCardBlockKind(type)
+            return (
+              <DropdownMenuItem key={type} onSelect={() => append(kind.create(crypto.randomUUID()))}>
+                <kind.icon />
+                {kind.label}
+              </DropdownMenuItem>
+            )
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
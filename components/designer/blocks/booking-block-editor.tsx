@@ -0,0 +1,228 @@
+"use client"
+
+import { useMemo } from "react"
+import { useParams } from "next/navigation"
+import { useFieldArray, useFormContext, type FieldPathByValue } from "react-hook-form"
+import { Download, Plus, Trash2 } from "lucide-react"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { formatDuration, weekdayLabels, weekdayOrder } from "@/lib/booking"
+import type { CardProfile } from "@/lib/card-profile"
+import { timeZoneNames } from "@/lib/time-zone"
+
+const DURATION_PRESETS = [15, 20, 30, 45, 60, 90]
+const BUFFER_PRESETS = [0, 5, 10, 15, 30, 60]
+const NOTICE_PRESETS = [0, 1, 2, 4, 12, 24, 48, 72]
+const HORIZON_PRESETS = [7, 14, 30, 60, 90, 180]
+
+interface NumberSelectProps {
+  name: FieldPathByValue<CardProfile, number>
+  label: string
+  options: number[]
+  format: (value: number) => string
+}
+
+/** A number picked from presets, plus whatever the profile already holds. */
+function NumberSelect({ name, label, options, format }: NumberSelectProps) {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {[...new Set([...options, field.value])]
+                .sort((a, b) => a - b)
+                .map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {format(value)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function BookingBlockEditor({ index }: { index: number }) {
+  const { control, watch } = useFormContext<CardProfile>()
+  const { slug } = useParams<{ slug: string }>()
+  const { fields, append, remove } = useFieldArray({ control, name: `blocks.${index}.availability` })
+  const blockId = watch(`blocks.${index}.id`)
+  const zones = useMemo(timeZoneNames, [])
+  const zoneListId = `booking-time-zones-${index}`
+
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.title`} label="Heading" />
+      <TextField name={`blocks.${index}.intro`} label="Intro" multiline />
+      <TextField
+        name={`blocks.${index}.location`}
+        label="Location"
+        placeholder="Video call link, phone number or address"
+        description="Added to both calendar invites."
+      />
+
+      <FormField
+        control={control}
+        name={`blocks.${index}.timeZone`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Time zone</FormLabel>
+            <FormControl>
+              <Input {...field} list={zoneListId} placeholder="Europe/Berlin" />
+            </FormControl>
+            <datalist id={zoneListId}>
+              {zones.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+            <FormDescription>Your opening hours below are in this zone.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name={`blocks.${index}.durations`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Meeting lengths</FormLabel>
+            <FormControl>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="flex-wrap justify-start"
+                value={field.value.map(String)}
+                onValueChange={(values) => field.onChange(values.map(Number).sort((a, b) => a - b))}
+              >
+                {[...new Set([...DURATION_PRESETS, ...field.value])]
+                  .sort((a, b) => a - b)
+                  .map((minutes) => (
+                    <ToggleGroupItem key={minutes} value={String(minutes)}>
+                      {formatDuration(minutes)}
+                    </ToggleGroupItem>
+                  ))}
+              </ToggleGroup>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Opening hours</p>
+        {fields.map((field, windowIndex) => (
+          <div key={field.id} className="flex items-start gap-2">
+            <FormField
+              control={control}
+              name={`blocks.${index}.availability.${windowIndex}.day`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                    <FormControl>
+                      <SelectTrigger aria-label="Day">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {weekdayOrder.map((day) => (
+                        <SelectItem key={day} value={String(day)}>
+                          {weekdayLabels[day]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            {(["start", "end"] as const).map((edge) => (
+              <FormField
+                key={edge}
+                control={control}
+                name={`blocks.${index}.availability.${windowIndex}.${edge}`}
+                render={({ field }) => (
+                  <FormItem className="w-28">
+                    <FormControl>
+                      <Input {...field} type="time" aria-label={edge === "start" ? "Opens" : "Closes"} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => remove(windowIndex)}
+              disabled={fields.length <= 1}
+              aria-label="Remove opening"
+            >
+              <Trash2 />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => append({ day: 1, start: "09:00", end: "17:00" })}>
+          <Plus />
+          Add opening
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <NumberSelect
+          name={`blocks.${index}.bufferBefore`}
+          label="Free before"
+          options={BUFFER_PRESETS}
+          format={(minutes) => (minutes ? formatDuration(minutes) : "None")}
+        />
+        <NumberSelect
+          name={`blocks.${index}.bufferAfter`}
+          label="Free after"
+          options={BUFFER_PRESETS}
+          format={(minutes) => (minutes ? formatDuration(minutes) : "None")}
+        />
+        <NumberSelect
+          name={`blocks.${index}.noticeHours`}
+          label="Minimum notice"
+          options={NOTICE_PRESETS}
+          format={(hours) => (hours ? `${hours} h` : "None")}
+        />
+        <NumberSelect
+          name={`blocks.${index}.horizonDays`}
+          label="Bookable ahead"
+          options={HORIZON_PRESETS}
+          format={(days) => `${days} days`}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Button asChild variant="outline" size="sm">
+          {/* A new tab, so the password prompt or an error never replaces unsaved edits. */}
+          <a href={`/editor/${slug}/bookings.ics?block=${encodeURIComponent(blockId)}`} target="_blank" rel="noreferrer">
+            <Download />
+            Download bookings (.ics)
+          </a>
+        </Button>
+        <p className="text-muted-foreground text-xs">Asks for the owner password.</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+"use client"
+
+import { useFormContext } from "react-hook-form"
+import { FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { CardProfile } from "@/lib/card-profile"
+
+export function DividerBlockEditor({ index }: { index: number }) {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <FormField
+      control={control}
+      name={`blocks.${index}.style`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Style</FormLabel>
+          <FormControl>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              className="justify-start"
+              value={field.value}
+              // Radix reports an empty value when the active item is clicked again.
+              onValueChange={(value) => value && field.onChange(value)}
+            >
+              <ToggleGroupItem value="line">Line</ToggleGroupItem>
+              <ToggleGroupItem value="dots">Dots</ToggleGroupItem>
+              <ToggleGroupItem value="space">Space</ToggleGroupItem>
+            </ToggleGroup>
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  )
+}
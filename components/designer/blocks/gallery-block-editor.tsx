@@ -0,0 +1,71 @@
+"use client"
+
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { SortableList } from "@/components/designer/sortable-list"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import type { CardProfile } from "@/lib/card-profile"
+
+export function GalleryBlockEditor({ index }: { index: number }) {
+  const { control, watch } = useFormContext<CardProfile>()
+  const { fields, append, remove, move } = useFieldArray({ control, name: `blocks.${index}.items` })
+
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.title`} label="Heading" />
+      <SortableList
+        items={fields}
+        getKey={(field) => field.id}
+        getLabel={(_, itemIndex) =>
+          watch(`blocks.${index}.items.${itemIndex}.title`) ||
+          watch(`blocks.${index}.items.${itemIndex}.image.alt`) ||
+          `Image ${itemIndex + 1}`
+        }
+        onMove={move}
+        className="space-y-3"
+      >
+        {(_, itemIndex, handle) => (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              {handle}
+              <p className="flex-1 text-sm font-medium">Image {itemIndex + 1}</p>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(itemIndex)}
+                disabled={fields.length <= 1}
+                aria-label="Remove image"
+              >
+                <Trash2 />
+              </Button>
+            </div>
+            <TextField name={`blocks.${index}.items.${itemIndex}.image.src`} label="Image URL" placeholder="https://" />
+            <TextField
+              name={`blocks.${index}.items.${itemIndex}.image.alt`}
+              label="Image description"
+              description="Read aloud by screen readers."
+            />
+            <TextField
+              name={`blocks.${index}.items.${itemIndex}.title`}
+              label="Title"
+              description="Optional. Name the project for a case study."
+            />
+            <TextField name={`blocks.${index}.items.${itemIndex}.caption`} label="Caption" />
+            <TextField
+              name={`blocks.${index}.items.${itemIndex}.href`}
+              label="Link"
+              placeholder="https://"
+              description="Optional. Shown under the image; uses the title as its text."
+            />
+          </div>
+        )}
+      </SortableList>
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ image: { src: "", alt: "" } })}>
+        <Plus />
+        Add image
+      </Button>
+    </div>
+  )
+}
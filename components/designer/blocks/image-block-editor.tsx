@@ -0,0 +1,14 @@
+"use client"
+
+import { TextField } from "@/components/designer/text-field"
+
+export function ImageBlockEditor({ index }: { index: number }) {
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.image.src`} label="Image URL" placeholder="https://" />
+      <TextField name={`blocks.${index}.image.alt`} label="Image description" description="Read aloud by screen readers." />
+      <TextField name={`blocks.${index}.caption`} label="Caption" />
+      <TextField name={`blocks.${index}.href`} label="Link" placeholder="https://" description="Optional. Makes the image clickable." />
+    </div>
+  )
+}
@@ -0,0 +1,24 @@
+import type { ComponentType } from "react"
+import { BookingBlockEditor } from "@/components/designer/blocks/booking-block-editor"
+import { DividerBlockEditor } from "@/components/designer/blocks/divider-block-editor"
+import { GalleryBlockEditor } from "@/components/designer/blocks/gallery-block-editor"
+import { ImageBlockEditor } from "@/components/designer/blocks/image-block-editor"
+import { LeadFormBlockEditor } from "@/components/designer/blocks/lead-form-block-editor"
+import { LinkListBlockEditor } from "@/components/designer/blocks/link-list-block-editor"
+import { QuoteBlockEditor } from "@/components/designer/blocks/quote-block-editor"
+import { TextBlockEditor } from "@/components/designer/blocks/text-block-editor"
+import { VideoBlockEditor } from "@/components/designer/blocks/video-block-editor"
+import type { CardBlockType } from "@/lib/card-profile"
+
+/** Editors receive the block's position in `blocks` and edit it through the form context. */
+export const blockEditors: Record<CardBlockType, ComponentType<{ index: number }>> = {
+  text: TextBlockEditor,
+  image: ImageBlockEditor,
+  video: VideoBlockEditor,
+  links: LinkListBlockEditor,
+  divider: DividerBlockEditor,
+  quote: QuoteBlockEditor,
+  gallery: GalleryBlockEditor,
+  "lead-form": LeadFormBlockEditor,
+  booking: BookingBlockEditor,
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import { useFormContext } from "react-hook-form"
+import { Download } from "lucide-react"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { CardProfile, LeadFieldMode } from "@/lib/card-profile"
+import { getLeadField, leadFieldIds } from "@/lib/leads"
+
+const MODE_LABELS: Record<LeadFieldMode, string> = {
+  hidden: "Don't ask",
+  optional: "Optional",
+  required: "Required",
+}
+
+export function LeadFormBlockEditor({ index }: { index: number }) {
+  const { control, watch } = useFormContext<CardProfile>()
+  const { slug } = useParams<{ slug: string }>()
+  const blockId = watch(`blocks.${index}.id`)
+
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.title`} label="Heading" />
+      <TextField name={`blocks.${index}.intro`} label="Intro" placeholder="Leave your details and I'll get back to you." multiline />
+      <div className="grid grid-cols-2 gap-3">
+        {leadFieldIds.map((id) => (
+          <FormField
+            key={id}
+            control={control}
+            name={`blocks.${index}.fields.${id}`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{getLeadField(id).label}</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.keys(MODE_LABELS) as LeadFieldMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-muted-foreground text-sm">Visitors always leave an email or a phone number, even when both are optional.</p>
+      <TextField
+        name={`blocks.${index}.consent`}
+        label="Consent checkbox"
+        description="Visitors must tick it to send. Leave empty for no checkbox."
+      />
+      <TextField name={`blocks.${index}.submitLabel`} label="Button text" placeholder="Send my details" />
+      <div className="space-y-1">
+        <Button asChild variant="outline" size="sm">
+          {/* A new tab, so the password prompt or an error never replaces unsaved edits. */}
+          <a href={`/editor/${slug}/leads.csv?block=${encodeURIComponent(blockId)}`} target="_blank" rel="noreferrer">
+            <Download />
+            Download responses
+          </a>
+        </Button>
+        <p className="text-muted-foreground text-xs">Asks for the owner password.</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { SortableList } from "@/components/designer/sortable-list"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import type { CardProfile } from "@/lib/card-profile"
+
+export function LinkListBlockEditor({ index }: { index: number }) {
+  const { control, watch } = useFormContext<CardProfile>()
+  const { fields, append, remove, move } = useFieldArray({ control, name: `blocks.${index}.links` })
+
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.title`} label="Heading" />
+      <SortableList
+        items={fields}
+        getKey={(field) => field.id}
+        getLabel={(_, linkIndex) => watch(`blocks.${index}.links.${linkIndex}.label`) || `Link ${linkIndex + 1}`}
+        onMove={move}
+        className="space-y-3"
+      >
+        {(_, linkIndex, handle) => (
+          <div className="flex items-start gap-2 rounded-lg border p-3">
+            <div className="pt-8">{handle}</div>
+            <div className="grid flex-1 grid-cols-2 gap-3">
+              <TextField name={`blocks.${index}.links.${linkIndex}.label`} label="Label" />
+              <TextField name={`blocks.${index}.links.${linkIndex}.href`} label="Link" placeholder="https://" />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="mt-6"
+              onClick={() => remove(linkIndex)}
+              disabled={fields.length <= 1}
+              aria-label="Remove link"
+            >
+              <Trash2 />
+            </Button>
+          </div>
+        )}
+      </SortableList>
+      <Button type="button" variant="outline" size="sm" onClick={() => append({ label: "", href: "" })}>
+        <Plus />
+        Add link
+      </Button>
+    </div>
+  )
+}
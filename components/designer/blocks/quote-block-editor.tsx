@@ -0,0 +1,12 @@
+"use client"
+
+import { TextField } from "@/components/designer/text-field"
+
+export function QuoteBlockEditor({ index }: { index: number }) {
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.text`} label="Quote" multiline />
+      <TextField name={`blocks.${index}.attribution`} label="Attribution" placeholder="Name, Company" />
+    </div>
+  )
+}
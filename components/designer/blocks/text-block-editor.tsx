@@ -0,0 +1,72 @@
+"use client"
+
+import { useRef } from "react"
+import { useFormContext } from "react-hook-form"
+import { Bold, Italic, Link2, List } from "lucide-react"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Textarea } from "@/components/ui/textarea"
+import type { CardProfile } from "@/lib/card-profile"
+
+export function TextBlockEditor({ index }: { index: number }) {
+  const { control } = useFormContext<CardProfile>()
+  const textarea = useRef<HTMLTextAreaElement | null>(null)
+
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.title`} label="Heading" />
+      <FormField
+        control={control}
+        name={`blocks.${index}.body`}
+        render={({ field }) => {
+          /** Wraps the selection (or `placeholder`) in `before` and `after`, keeping it selected. */
+          const wrap = (before: string, after: string, placeholder: string) => {
+            const element = textarea.current
+            const value = field.value ?? ""
+            const start = element?.selectionStart ?? value.length
+            const end = element?.selectionEnd ?? value.length
+            const selected = value.slice(start, end) || placeholder
+            field.onChange(value.slice(0, start) + before + selected + after + value.slice(end))
+            requestAnimationFrame(() => {
+              element?.focus()
+              element?.setSelectionRange(start + before.length, start + before.length + selected.length)
+            })
+          }
+
+          return (
+            <FormItem>
+              <FormLabel>Text</FormLabel>
+              <div className="flex gap-1" role="toolbar" aria-label="Formatting">
+                <Button type="button" variant="ghost" size="icon" aria-label="Bold" onClick={() => wrap("**", "**", "bold text")}>
+                  <Bold />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" aria-label="Italic" onClick={() => wrap("*", "*", "italic text")}>
+                  <Italic />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" aria-label="Link" onClick={() => wrap("[", "](https://)", "link text")}>
+                  <Link2 />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" aria-label="Bulleted list" onClick={() => wrap("\n- ", "", "list item")}>
+                  <List />
+                </Button>
+              </div>
+              <FormControl>
+                <Textarea
+                  {...field}
+                  ref={(element) => {
+                    field.ref(element)
+                    textarea.current = element
+                  }}
+                  rows={6}
+                />
+              </FormControl>
+              <FormDescription>Leave a blank line between paragraphs. Start lines with &quot;- &quot; for a list.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,12 @@
+"use client"
+
+import { TextField } from "@/components/designer/text-field"
+
+export function VideoBlockEditor({ index }: { index: number }) {
+  return (
+    <div className="space-y-3">
+      <TextField name={`blocks.${index}.url`} label="YouTube or Vimeo link" placeholder="https://www.youtube.com/watch?v=…" />
+      <TextField name={`blocks.${index}.title`} label="Title" description="Names the player for screen readers." />
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+"use client"
+
+import { useState, type ChangeEvent } from "react"
+import { useFormContext } from "react-hook-form"
+import { ImageUp, Sparkles, Wand2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import type { CardProfile } from "@/lib/card-profile"
+import { contrastRatio } from "@/lib/color"
+import { extractPalette, proposeTheme, type PaletteColor, type ProposedTheme } from "@/lib/palette"
+
+/** Logos are sampled at this size; more pixels barely change the palette. */
+const SAMPLE_SIZE = 64
+/** Uploaded logos are stored inline in the profile, so keep them small. */
+const MAX_LOGO_BYTES = 1024 * 1024
+
+async function readPixels(src: string) {
+  const image = new Image()
+  image.crossOrigin = "anonymous"
+  image.src = src
+  await image.decode()
+
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(image.naturalWidth, image.naturalHeight))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale))
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale))
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Canvas is not available")
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return context.getImageData(0, 0, canvas.width, canvas.height).data
+}
+
+function readAsDataUrl(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+function Swatch({ hex, label }: { hex: string; label: string }) {
+  const ratio = contrastRatio(hex, "#ffffff")
+  return (
+    <div className="space-y-1 text-center">
+      <div
+        className="flex h-10 items-center justify-center rounded-md border text-xs font-semibold text-white"
+        style={{ backgroundColor: hex }}
+        title={hex}
+      >
+        Aa
+      </div>
+      <p className="text-muted-foreground text-[11px] leading-tight">{label}</p>
+      <p className="text-[11px] font-mono leading-tight">{ratio.toFixed(1)}:1</p>
+    </div>
+  )
+}
+
+/**
+ * Samples the brand logo in the browser and proposes theme colors from it.
+ * Nothing is uploaded until the card is saved.
+ */
+export function BrandKit() {
+  const { getValues, setValue } = useFormContext<CardProfile>()
+  const [palette, setPalette] = useState<PaletteColor[]>([])
+  const [proposal, setProposal] = useState<ProposedTheme>()
+  const [error, setError] = useState<string>()
+  const [isSampling, setIsSampling] = useState(false)
+
+  const sample = async (src: string) => {
+    setError(undefined)
+    setIsSampling(true)
+    try {
+      const colors = extractPalette(await readPixels(src))
+      setPalette(colors)
+      setProposal(proposeTheme(colors))
+      if (colors.length === 0) setError("The logo has no opaque pixels to sample.")
+    } catch {
+      // Cross-origin images without CORS headers taint the canvas.
+      setError("This logo could not be sampled. Upload the file instead.")
+    } finally {
+      setIsSampling(false)
+    }
+  }
+
+  const handleUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    if (file.size > MAX_LOGO_BYTES) {
+      setError("Logos must be 1 MB or smaller.")
+      return
+    }
+    const src = await readAsDataUrl(file)
+    setValue("branding.logo.src", src, { shouldDirty: true })
+    await sample(src)
+  }
+
+  const apply = () => {
+    if (!proposal) return
+    setValue("theme", { ...getValues("theme")!, ...proposal }, { shouldDirty: true })
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center gap-2">
+        <Sparkles className="h-4 w-4 text-primary" />
+        <p className="text-sm font-semibold">Brand kit</p>
+      </div>
+      <p className="text-muted-foreground text-sm">Pull a palette from your logo. Colors are adjusted so white text stays readable.</p>
+      <div className="flex flex-wrap gap-2">
+        <Button asChild type="button" variant="outline" size="sm">
+          <Label htmlFor="brand-kit-logo" className="cursor-pointer">
+            <ImageUp />
+            Upload logo
+          </Label>
+        </Button>
+        <Input id="brand-kit-logo" type="file" accept="image/*" className="sr-only" onChange={handleUpload} />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isSampling}
+          onClick={() => sample(getValues("branding.logo.src"))}
+        >
+          <Wand2 />
+          {isSampling ? "Sampling…" : "Use current logo"}
+        </Button>
+      </div>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+      {palette.length > 0 && (
+        <div className="flex gap-1" aria-label="Colors found in the logo">
+          {palette.map((color) => (
+            <div
+              key={color.hex}
+              className="h-4 rounded-sm"
+              style={{ backgroundColor: color.hex, flexGrow: color.weight }}
+              title={`${color.hex} · ${Math.round(color.weight * 100)}%`}
+            />
+          ))}
+        </div>
+      )}
+
+      {proposal && (
+        <>
+          <div className="grid grid-cols-5 gap-2">
+            <Swatch hex={proposal.primary} label="Primary" />
+            <Swatch hex={proposal.accent} label="Accent" />
+            <Swatch hex={proposal.gradient.from} label="Cover start" />
+            <Swatch hex={proposal.gradient.via} label="Cover middle" />
+            <Swatch hex={proposal.gradient.to} label="Cover end" />
+          </div>
+          <Button type="button" size="sm" className="w-full" onClick={apply}>
+            Apply to theme
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import { TextField } from "@/components/designer/text-field"
+
+export function BrandingFields() {
+  return (
+    <div className="space-y-4">
+      <TextField name="branding.name" label="Brand name" />
+      <TextField name="branding.logo.src" label="Logo URL" />
+      <TextField name="branding.logo.alt" label="Logo description" />
+      <TextField name="footer.text" label="Footer" />
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useForm } from "react-hook-form"
+import { useTheme } from "next-themes"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { ArrowLeft, ExternalLink } from "lucide-react"
+import { AccessibilityPanel } from "@/components/designer/accessibility-panel"
+import { AddressFields } from "@/components/designer/address-fields"
+import { AnimationFields } from "@/components/designer/animation-fields"
+import { BannerFields } from "@/components/designer/banner-fields"
+import { BlockFields } from "@/components/designer/block-fields"
+import { BrandingFields } from "@/components/designer/branding-fields"
+import { ContactFields } from "@/components/designer/contact-fields"
+import { CoverFields } from "@/components/designer/cover-fields"
+import { DevicePreview } from "@/components/designer/device-preview"
+import { HistoryMenu } from "@/components/designer/history-menu"
+import { IdentityFields } from "@/components/designer/identity-fields"
+import { LayoutFields } from "@/components/designer/layout-fields"
+import { TemplateGallery } from "@/components/designer/template-gallery"
+import { ThemeFields } from "@/components/designer/theme-fields"
+import { TypographyFields } from "@/components/designer/typography-fields"
+import { ThemeToggle } from "@/components/theme-toggle"
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Form } from "@/components/ui/form"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
+import { useAccessibilityAudit } from "@/hooks/use-accessibility-audit"
+import { useFormHistory } from "@/hooks/use-form-history"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { useToast } from "@/hooks/use-toast"
+import { resolveBanners } from "@/lib/banners"
+import { cardProfileSchema, resolveSections, type CardProfile } from "@/lib/card-profile"
+import { defaultCardTheme } from "@/lib/card-theme"
+import { defaultCover } from "@/lib/cover"
+import { defaultCtaAnimation } from "@/lib/cta-animation"
+import { defaultCardTypography } from "@/lib/fonts"
+import { saveCard } from "@/app/editor/[slug]/actions"
+
+interface CardDesignerProps {
+  slug: string
+  profile: CardProfile
+}
+
+export default function CardDesigner({ slug, profile }: CardDesignerProps) {
+  const { toast } = useToast()
+  const { systemTheme } = useTheme()
+  const isMobile = useIsMobile()
+  const form = useForm<CardProfile>({
+    resolver: zodResolver(cardProfileSchema),
+    // Older profiles lack these optional groups; spell them out so they can be edited.
+    defaultValues: {
+      ...profile,
+      sections: resolveSections(profile.sections),
+      theme: profile.theme ?? defaultCardTheme,
+      typography: profile.typography ?? defaultCardTypography,
+      ctaAnimation: profile.ctaAnimation ?? defaultCtaAnimation,
+      cover: profile.cover ?? defaultCover,
+      blocks: profile.blocks ?? [],
+      // The single legacy banner moves into the queue on the next save, with an id for dismissals.
+      banner: undefined,
+      banners: resolveBanners(profile).map((banner) => ({ ...banner, id: banner.id ?? crypto.randomUUID() })),
+    },
+    mode: "onChange",
+  })
+  const history = useFormHistory(form)
+  const preview = form.watch()
+  const [previewRoot, setPreviewRoot] = useState<HTMLElement | null>(null)
+  const findings = useAccessibilityAudit(preview, previewRoot)
+  const errorCount = findings.filter((finding) => finding.severity === "error").length
+  const { isDirty, isSubmitting } = form.formState
+
+  const onSubmit = async (values: CardProfile) => {
+    const result = await saveCard(slug, values)
+    if (result.error) {
+      toast({ variant: "destructive", title: "Could not save card", description: result.error })
+      return
+    }
+    form.reset(values)
+    toast({ title: "Card saved" })
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="h-screen flex flex-col bg-background">
+        <header className="flex items-center gap-3 border-b px-4 py-3">
+          <Button asChild variant="ghost" size="icon" aria-label="Back to cards">
+            <Link href="/">
+              <ArrowLeft />
+            </Link>
+          </Button>
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold truncate">{preview.identity.name || "Untitled card"}</p>
+            <p className="text-muted-foreground text-xs">/c/{slug}</p>
+          </div>
+          <HistoryMenu {...history} />
+          <ThemeToggle />
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/c/${slug}`} target="_blank">
+              <ExternalLink />
+              View card
+            </Link>
+          </Button>
+          <Button type="submit" size="sm" disabled={!isDirty || isSubmitting}>
+            {isSubmitting ? "Saving…" : "Save"}
+          </Button>
+        </header>
+
+        {/* Phones stack the preview under the form instead of squeezing them side by side. */}
+        <ResizablePanelGroup direction={isMobile ? "vertical" : "horizontal"} className="flex-1 min-h-0">
+          <ResizablePanel defaultSize={40} minSize={25}>
+            <div className="h-full overflow-y-auto px-4">
+              <Accordion type="multiple" defaultValue={["identity", "contacts"]}>
+                <AccordionItem value="identity">
+                  <AccordionTrigger>Profile</AccordionTrigger>
+                  <AccordionContent>
+                    <IdentityFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="contacts">
+                  <AccordionTrigger>Contact methods</AccordionTrigger>
+                  <AccordionContent>
+                    <ContactFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="blocks">
+                  <AccordionTrigger>Content blocks</AccordionTrigger>
+                  <AccordionContent>
+                    <BlockFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="addresses">
+                  <AccordionTrigger>Postal addresses</AccordionTrigger>
+                  <AccordionContent>
+                    <AddressFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="template">
+                  <AccordionTrigger>Template</AccordionTrigger>
+                  <AccordionContent>
+                    <TemplateGallery slug={slug} systemScheme={systemTheme} />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="layout">
+                  <AccordionTrigger>Layout</AccordionTrigger>
+                  <AccordionContent>
+                    <LayoutFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="theme">
+                  <AccordionTrigger>Theme</AccordionTrigger>
+                  <AccordionContent>
+                    <ThemeFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="cover">
+                  <AccordionTrigger>Cover</AccordionTrigger>
+                  <AccordionContent>
+                    <CoverFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="typography">
+                  <AccordionTrigger>Typography</AccordionTrigger>
+                  <AccordionContent>
+                    <TypographyFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="animation">
+                  <AccordionTrigger>Animation</AccordionTrigger>
+                  <AccordionContent>
+                    <AnimationFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="branding">
+                  <AccordionTrigger>Branding</AccordionTrigger>
+                  <AccordionContent>
+                    <BrandingFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="banners">
+                  <AccordionTrigger>Announcement banners</AccordionTrigger>
+                  <AccordionContent>
+                    <BannerFields />
+                  </AccordionContent>
+                </AccordionItem>
+                <AccordionItem value="accessibility">
+                  <AccordionTrigger>
+                    <span className="flex items-center gap-2">
+                      Accessibility
+                      {findings.length > 0 && (
+                        <Badge variant={errorCount > 0 ? "destructive" : "secondary"}>{findings.length}</Badge>
+                      )}
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <AccessibilityPanel findings={findings} previewRoot={previewRoot} />
+                  </AccordionContent>
+                </AccordionItem>
+              </Accordion>
+            </div>
+          </ResizablePanel>
+          <ResizableHandle withHandle />
+          <ResizablePanel defaultSize={60} minSize={30}>
+            <DevicePreview slug={slug} profile={preview} onDocumentChange={setPreviewRoot} />
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      </form>
+    </Form>
+  )
+}
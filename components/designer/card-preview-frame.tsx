@@ -0,0 +1,32 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useTheme } from "next-themes"
+import DelightCardLanding from "@/components/delight-card-landing"
+import type { CardProfile } from "@/lib/card-profile"
+
+/** Messages between the designer and the preview iframe. */
+export type PreviewMessage = { type: "card-preview:ready" } | { type: "card-preview:profile"; profile: CardProfile }
+
+interface CardPreviewFrameProps {
+  slug: string
+  profile: CardProfile
+}
+
+/** Renders whatever profile the parent designer last sent. */
+export function CardPreviewFrame({ slug, profile: initialProfile }: CardPreviewFrameProps) {
+  const [profile, setProfile] = useState(initialProfile)
+  const { systemTheme } = useTheme()
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent<PreviewMessage>) => {
+      if (event.origin !== window.location.origin || event.source !== window.parent) return
+      if (event.data?.type === "card-preview:profile") setProfile(event.data.profile)
+    }
+    window.addEventListener("message", onMessage)
+    window.parent.postMessage({ type: "card-preview:ready" } satisfies PreviewMessage, window.location.origin)
+    return () => window.removeEventListener("message", onMessage)
+  }, [])
+
+  return <DelightCardLanding slug={slug} profile={profile} systemScheme={systemTheme} />
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { useFormContext } from "react-hook-form"
+import type { TextFieldPath } from "@/components/designer/text-field"
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import type { CardProfile } from "@/lib/card-profile"
+
+interface ColorFieldProps {
+  name: TextFieldPath
+  label: string
+}
+
+/** A swatch picker paired with a hex input, for `#rrggbb` theme colors. */
+export function ColorField({ name, label }: ColorFieldProps) {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={field.value ?? "#000000"}
+              onChange={field.onChange}
+              aria-label={`${label} swatch`}
+              className="h-9 w-12 flex-shrink-0 cursor-pointer rounded-md border bg-transparent p-1"
+            />
+            <FormControl>
+              <Input {...field} value={field.value ?? ""} placeholder="#7c3aed" className="font-mono" />
+            </FormControl>
+          </div>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
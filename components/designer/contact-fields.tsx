@@ -0,0 +1,95 @@
+"use client"
+
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { Eye, EyeOff, Plus, Trash2 } from "lucide-react"
+import { SortableList } from "@/components/designer/sortable-list"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { CardProfile } from "@/lib/card-profile"
+import { contactChannelKinds, getContactChannel } from "@/lib/contact-methods"
+import { cn } from "@/lib/utils"
+
+/** Channels whose links can carry a prefilled message. */
+const MESSAGE_KINDS = new Set(["message", "whatsapp", "email", "teams"])
+
+export function ContactFields() {
+  const { control, watch, setValue } = useFormContext<CardProfile>()
+  const { fields, append, remove, move } = useFieldArray({ control, name: "contacts" })
+
+  return (
+    <div className="space-y-4">
+      <SortableList
+        items={fields}
+        getKey={(field) => field.id}
+        getLabel={(_, index) => getContactChannel(watch(`contacts.${index}.kind`)).label}
+        onMove={move}
+        className="space-y-4"
+      >
+        {(field, index, handle) => {
+          const kind = watch(`contacts.${index}.kind`)
+          const hidden = watch(`contacts.${index}.hidden`)
+          const channel = getContactChannel(kind)
+          return (
+            <div className={cn("space-y-3 rounded-lg border p-3", hidden && "bg-muted/50")}>
+              <div className="flex items-end gap-2">
+                <div className="pb-2">{handle}</div>
+                <FormField
+                  control={control}
+                  name={`contacts.${index}.kind`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Channel</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {contactChannelKinds.map((option) => (
+                            <SelectItem key={option} value={option}>
+                              {getContactChannel(option).label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setValue(`contacts.${index}.hidden`, !hidden, { shouldDirty: true })}
+                  aria-label={hidden ? "Show on card" : "Hide from card"}
+                  aria-pressed={Boolean(hidden)}
+                >
+                  {hidden ? <EyeOff /> : <Eye />}
+                </Button>
+                <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)} aria-label="Remove contact">
+                  <Trash2 />
+                </Button>
+              </div>
+              <TextField name={`contacts.${index}.value`} label={channel.label} placeholder={channel.placeholder} />
+              <div className="grid grid-cols-2 gap-3">
+                <TextField name={`contacts.${index}.label`} label="Title" placeholder={channel.label} />
+                <TextField name={`contacts.${index}.subtitle`} label="Subtitle" placeholder={channel.subtitle} />
+              </div>
+              {kind === "email" && <TextField name={`contacts.${index}.subject`} label="Email subject" />}
+              {MESSAGE_KINDS.has(kind) && (
+                <TextField name={`contacts.${index}.message`} label="Prefilled message" multiline />
+              )}
+            </div>
+          )
+        }}
+      </SortableList>
+      <Button type="button" variant="outline" className="w-full" onClick={() => append({ kind: "email", value: "" })}>
+        <Plus />
+        Add contact method
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import type { MouseEvent } from "react"
+import Image from "next/image"
+import { useFieldArray, useFormContext, type FieldPathByValue } from "react-hook-form"
+import { Plus, Trash2 } from "lucide-react"
+import { ColorField } from "@/components/designer/color-field"
+import { TextField } from "@/components/designer/text-field"
+import { Button } from "@/components/ui/button"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import type { CardProfile, CoverMediaKind } from "@/lib/card-profile"
+import { coverMediaKinds, initialCoverMedia } from "@/lib/cover"
+import { coverPatternIds, getCoverPattern } from "@/lib/cover-patterns"
+
+interface RangeFieldProps {
+  name: FieldPathByValue<CardProfile, number>
+  label: string
+  min: number
+  max: number
+  step: number
+  format: (value: number) => string
+}
+
+function RangeField({ name, label, min, max, step, format }: RangeFieldProps) {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex items-center justify-between">
+            <FormLabel>{label}</FormLabel>
+            <span className="text-muted-foreground text-sm">{format(field.value ?? min)}</span>
+          </div>
+          <FormControl>
+            <Slider min={min} max={max} step={step} value={[field.value ?? min]} onValueChange={([value]) => field.onChange(value)} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  )
+}
+
+const percent = (value: number) => `${Math.round(value)}%`
+
+/** Click the image to choose the point that stays in view when the cover crops it. */
+function FocalPointPicker() {
+  const { watch, setValue } = useFormContext<CardProfile>()
+  const src = watch("cover.media.image.src")
+  const focalPoint = watch("cover.media.focalPoint")
+  if (!src || !focalPoint) return null
+
+  const pick = (event: MouseEvent<HTMLButtonElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const clamp = (value: number) => Math.round(Math.min(100, Math.max(0, value)))
+    setValue(
+      "cover.media.focalPoint",
+      {
+        x: clamp(((event.clientX - bounds.left) / bounds.width) * 100),
+        y: clamp(((event.clientY - bounds.top) / bounds.height) * 100),
+      },
+      { shouldDirty: true },
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={pick}
+      aria-label="Set focal point"
+      className="relative block w-full overflow-hidden rounded-md border focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      {/* Zero intrinsic size lets the image keep its own aspect ratio. */}
+      <Image src={src} alt="" width={0} height={0} sizes="24rem" className="block h-auto w-full" />
+      <span
+        className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-primary shadow"
+        style={{ left: `${focalPoint.x}%`, top: `${focalPoint.y}%` }}
+      />
+    </button>
+  )
+}
+
+function GradientStops() {
+  const { control } = useFormContext<CardProfile>()
+  const { fields, append, remove } = useFieldArray({ control, name: "cover.media.stops" })
+
+  return (
+    <div className="space-y-3">
+      {fields.map((field, index) => (
+        <div key={field.id} className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <ColorField name={`cover.media.stops.${index}.color`} label={`Color ${index + 1}`} />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => remove(index)}
+              disabled={fields.length <= 2}
+              aria-label={`Remove color ${index + 1}`}
+            >
+              <Trash2 />
+            </Button>
+          </div>
+          <RangeField name={`cover.media.stops.${index}.position`} label="Position" min={0} max={100} step={1} format={percent} />
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={fields.length >= 6}
+        onClick={() => append({ color: fields[fields.length - 1]?.color ?? "#ffffff", position: 100 })}
+      >
+        <Plus />
+        Add color
+      </Button>
+    </div>
+  )
+}
+
+export function CoverFields() {
+  const { control, getValues, setValue, watch } = useFormContext<CardProfile>()
+  const kind = watch("cover.media.kind")
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={control}
+        name="cover.media.kind"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Cover</FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(value) =>
+                setValue("cover.media", initialCoverMedia(value as CoverMediaKind, getValues("theme")), { shouldDirty: true })
+              }
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {(Object.keys(coverMediaKinds) as CoverMediaKind[]).map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {coverMediaKinds[id]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription>Layouts without a cover, such as Photo hero and Minimal, ignore this.</FormDescription>
+          </FormItem>
+        )}
+      />
+
+      {kind === "image" && (
+        <>
+          <TextField name="cover.media.image.src" label="Image URL" placeholder="https://" />
+          <TextField name="cover.media.image.alt" label="Image description" description="Leave empty if the image is decorative." />
+          <FocalPointPicker />
+          <div className="grid grid-cols-2 gap-3">
+            <RangeField name="cover.media.focalPoint.x" label="Focus across" min={0} max={100} step={1} format={percent} />
+            <RangeField name="cover.media.focalPoint.y" label="Focus down" min={0} max={100} step={1} format={percent} />
+          </div>
+        </>
+      )}
+
+      {kind === "video" && (
+        <>
+          <TextField name="cover.media.src" label="Video URL" placeholder="https://" description="Plays muted on a loop." />
+          <TextField
+            name="cover.media.poster"
+            label="Poster image URL"
+            description="Shown while the video loads and to visitors who prefer reduced motion."
+          />
+        </>
+      )}
+
+      {kind === "pattern" && (
+        <>
+          <FormField
+            control={control}
+            name="cover.media.pattern"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Pattern</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {coverPatternIds.map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {getCoverPattern(id).label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <ColorField name="cover.media.color" label="Pattern color" />
+            <ColorField name="cover.media.background" label="Background" />
+          </div>
+        </>
+      )}
+
+      {kind === "gradient" && (
+        <>
+          <RangeField name="cover.media.angle" label="Angle" min={0} max={360} step={5} format={(value) => `${value}°`} />
+          <GradientStops />
+        </>
+      )}
+
+      <div className="space-y-3 rounded-lg border p-3">
+        <p className="text-sm font-semibold">Tint</p>
+        <p className="text-muted-foreground text-sm">Darken or color the cover so the banner stays readable.</p>
+        <ColorField name="cover.overlay.color" label="Tint color" />
+        <RangeField name="cover.overlay.opacity" label="Strength" min={0} max={0.9} step={0.05} format={(value) => percent(value * 100)} />
+      </div>
+    </div>
+  )
+}
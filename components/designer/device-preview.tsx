@@ -0,0 +1,169 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Monitor, RotateCw, Smartphone, Tablet, type LucideIcon } from "lucide-react"
+import type { PreviewMessage } from "@/components/designer/card-preview-frame"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { CardProfile } from "@/lib/card-profile"
+import { cn } from "@/lib/utils"
+
+interface DeviceFrame {
+  label: string
+  icon: LucideIcon
+  /** Viewport size in CSS pixels, portrait for handhelds. */
+  width: number
+  height: number
+  /** Desktops have no portrait mode. */
+  rotates: boolean
+  /** Width of the drawn device edge, in pixels. */
+  bezel: number
+}
+
+const deviceFrames = {
+  "small-phone": { label: "Small phone", icon: Smartphone, width: 360, height: 640, rotates: true, bezel: 8 },
+  "large-phone": { label: "Large phone", icon: Smartphone, width: 430, height: 932, rotates: true, bezel: 8 },
+  tablet: { label: "Tablet", icon: Tablet, width: 820, height: 1180, rotates: true, bezel: 8 },
+  desktop: { label: "Desktop", icon: Monitor, width: 1280, height: 800, rotates: false, bezel: 1 },
+} satisfies Record<string, DeviceFrame>
+
+type DeviceFrameId = keyof typeof deviceFrames
+
+const ZOOM_LEVELS = ["fit", "0.5", "0.75", "1", "1.25"] as const
+type Zoom = (typeof ZOOM_LEVELS)[number]
+
+/** Room around the frame inside the stage, in pixels. */
+const STAGE_PADDING = 32
+
+interface DevicePreviewProps {
+  slug: string
+  profile: CardProfile
+  /** Called with the preview document's body once it loads, and with null when it goes away. */
+  onDocumentChange?: (body: HTMLElement | null) => void
+}
+
+/**
+ * The card inside a simulated device. It renders in an iframe sized to the
+ * device, so `md:` and other breakpoints see the device width rather than the
+ * designer window's; zoom only scales the frame on screen.
+ */
+export function DevicePreview({ slug, profile, onDocumentChange }: DevicePreviewProps) {
+  const [deviceId, setDeviceId] = useState<DeviceFrameId>("large-phone")
+  const [landscape, setLandscape] = useState(false)
+  const [zoom, setZoom] = useState<Zoom>("fit")
+  const [stage, setStage] = useState({ width: 0, height: 0 })
+  const stageRef = useRef<HTMLDivElement>(null)
+  const frameRef = useRef<HTMLIFrameElement>(null)
+
+  const device: DeviceFrame = deviceFrames[deviceId]
+  const rotated = landscape && device.rotates
+  const width = rotated ? device.height : device.width
+  const height = rotated ? device.width : device.height
+  const outerWidth = width + device.bezel * 2
+  const outerHeight = height + device.bezel * 2
+  const fitScale = Math.min(1, (stage.width - STAGE_PADDING) / outerWidth, (stage.height - STAGE_PADDING) / outerHeight)
+  const fitZoom = Math.max(0.1, fitScale)
+  const scale = zoom === "fit" ? fitZoom : Number(zoom)
+
+  useEffect(() => {
+    const element = stageRef.current
+    if (!element) return
+    const observer = new ResizeObserver(([entry]) => setStage({ width: entry.contentRect.width, height: entry.contentRect.height }))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Send every edit to the frame, and the current one again whenever it (re)loads.
+  const serialized = JSON.stringify(profile)
+  const latest = useRef(profile)
+  latest.current = profile
+  useEffect(() => {
+    const post = () =>
+      frameRef.current?.contentWindow?.postMessage(
+        { type: "card-preview:profile", profile: latest.current } satisfies PreviewMessage,
+        window.location.origin,
+      )
+    post()
+
+    const onMessage = (event: MessageEvent<PreviewMessage>) => {
+      if (event.source === frameRef.current?.contentWindow && event.data?.type === "card-preview:ready") post()
+    }
+    window.addEventListener("message", onMessage)
+    return () => window.removeEventListener("message", onMessage)
+  }, [serialized])
+
+  useEffect(() => () => onDocumentChange?.(null), [onDocumentChange])
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center gap-2 border-b bg-background px-3 py-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={deviceId}
+          onValueChange={(value) => value && setDeviceId(value as DeviceFrameId)}
+          aria-label="Device"
+        >
+          {(Object.keys(deviceFrames) as DeviceFrameId[]).map((id) => {
+            const { label, icon: Icon } = deviceFrames[id]
+            return (
+              <ToggleGroupItem key={id} value={id} aria-label={label} title={label}>
+                <Icon className={cn(id === "small-phone" && "scale-75")} />
+              </ToggleGroupItem>
+            )
+          })}
+        </ToggleGroup>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          disabled={!device.rotates}
+          aria-pressed={rotated}
+          onClick={() => setLandscape((value) => !value)}
+          aria-label="Landscape"
+          title="Rotate"
+        >
+          <RotateCw />
+        </Button>
+        <span className="text-muted-foreground text-xs tabular-nums">
+          {device.label} · {width}×{height}
+        </span>
+        <Select value={zoom} onValueChange={(value) => setZoom(value as Zoom)}>
+          <SelectTrigger className="ml-auto h-8 w-28" aria-label="Zoom">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ZOOM_LEVELS.map((level) => (
+              <SelectItem key={level} value={level}>
+                {level === "fit" ? `Fit (${Math.round(fitZoom * 100)}%)` : `${Number(level) * 100}%`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div ref={stageRef} className="flex-1 min-h-0 overflow-auto bg-muted">
+        <div className="flex min-h-full min-w-full items-center justify-center p-4" style={{ width: "max-content" }}>
+          <div style={{ width: outerWidth * scale, height: outerHeight * scale }}>
+            <div
+              className={cn(
+                "origin-top-left overflow-hidden bg-background shadow-xl",
+                deviceId === "desktop" ? "rounded-md border-border" : "rounded-[2rem] border-foreground/80",
+              )}
+              style={{ transform: `scale(${scale})`, width, height, borderWidth: device.bezel, boxSizing: "content-box" }}
+            >
+              <iframe
+                ref={frameRef}
+                src={`/editor/${slug}/preview`}
+                title="Card preview"
+                className="block h-full w-full"
+                onLoad={(event) => onDocumentChange?.(event.currentTarget.contentDocument?.body ?? null)}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
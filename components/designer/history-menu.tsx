@@ -0,0 +1,101 @@
+"use client"
+
+import { History, Redo2, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { HistoryEntry } from "@/hooks/use-form-history"
+import type { CardProfile } from "@/lib/card-profile"
+import { cn } from "@/lib/utils"
+
+const GROUP_LABELS: Record<string, string> = {
+  identity: "Profile",
+  contacts: "Contact method",
+  addresses: "Postal address",
+  branding: "Branding",
+  banner: "Banner",
+  banners: "Banner",
+  footer: "Footer",
+  sections: "Layout",
+  blocks: "Block",
+}
+
+function humanize(segment: string) {
+  return segment.replace(/([A-Z])/g, " $1").toLowerCase()
+}
+
+/** Turns a form path such as `contacts.1.value` into "Contact method 2 · value". */
+function describeChange(name?: string) {
+  if (!name) return "Opened card"
+  const [group, ...rest] = name.split(".")
+  const position = rest.find((segment) => /^\d+$/.test(segment))
+  const field = rest.filter((segment) => !/^\d+$/.test(segment)).map(humanize).join(" ")
+  const subject = [GROUP_LABELS[group] ?? humanize(group), position && Number(position) + 1].filter(Boolean).join(" ")
+  return field ? `${subject} · ${field}` : subject
+}
+
+interface HistoryMenuProps {
+  entries: HistoryEntry<CardProfile>[]
+  index: number
+  canUndo: boolean
+  canRedo: boolean
+  undo: () => void
+  redo: () => void
+  goTo: (index: number) => void
+}
+
+export function HistoryMenu({ entries, index, canUndo, canRedo, undo, redo, goTo }: HistoryMenuProps) {
+  return (
+    <div className="flex items-center">
+      <Button type="button" variant="ghost" size="icon" onClick={undo} disabled={!canUndo} aria-label="Undo" title="Undo (Ctrl+Z)">
+        <Undo2 />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={redo}
+        disabled={!canRedo}
+        aria-label="Redo"
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="ghost" size="icon" aria-label="Change history">
+            <History />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 p-0">
+          <p className="border-b px-3 py-2 text-sm font-semibold">History</p>
+          <div className="max-h-80 overflow-y-auto">
+            <ol className="p-1" aria-label="Changes, newest first">
+              {entries
+                .map((entry, position) => ({ entry, position }))
+                .reverse()
+                .map(({ entry, position }) => (
+                  <li key={position}>
+                    <button
+                      type="button"
+                      onClick={() => goTo(position)}
+                      aria-current={position === index ? "step" : undefined}
+                      className={cn(
+                        "flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent",
+                        position === index && "bg-accent font-medium",
+                        position > index && "text-muted-foreground",
+                      )}
+                    >
+                      <span className="truncate">{describeChange(entry.name)}</span>
+                      <time className="flex-shrink-0 text-xs text-muted-foreground" dateTime={new Date(entry.at).toISOString()}>
+                        {new Date(entry.at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit", second: "2-digit" })}
+                      </time>
+                    </button>
+                  </li>
+                ))}
+            </ol>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+"use client"
+
+import { TextField } from "@/components/designer/text-field"
+
+export function IdentityFields() {
+  return (
+    <div className="space-y-4">
+      <TextField name="identity.name" label="Full name" placeholder="Alex Johnson" />
+      <div className="grid grid-cols-2 gap-3">
+        <TextField name="identity.givenName" label="First name" />
+        <TextField name="identity.familyName" label="Last name" />
+      </div>
+      <TextField name="identity.title" label="Job title" placeholder="Senior Product Designer" />
+      <TextField name="identity.organization" label="Organization" placeholder="Delightloop" />
+      <TextField name="identity.location" label="Location" placeholder="San Francisco, CA" />
+      <TextField name="identity.note" label="Note" description="Saved to the contact's notes." multiline />
+      <TextField name="identity.avatar.src" label="Photo URL" />
+      <TextField name="identity.avatar.alt" label="Photo description" description="Read aloud by screen readers." />
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useFieldArray, useFormContext } from "react-hook-form"
+import { SortableList } from "@/components/designer/sortable-list"
+import { FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form"
+import { Switch } from "@/components/ui/switch"
+import type { CardProfile, CardSectionId } from "@/lib/card-profile"
+
+const SECTION_LABELS: Record<CardSectionId, string> = {
+  cover: "Cover & banner",
+  profile: "Photo & profile",
+  saveContact: "Save Contact button",
+  contacts: "Contact methods",
+  blocks: "Content blocks",
+  footer: "Footer",
+}
+
+export function LayoutFields() {
+  const { control } = useFormContext<CardProfile>()
+  // Sections carry their own `id`, so the generated field key needs another name.
+  const { fields, move } = useFieldArray({ control, name: "sections", keyName: "key" })
+
+  return (
+    <div className="space-y-2">
+      <p className="text-muted-foreground text-sm">Drag sections to reorder them, or focus a handle and use the arrow keys.</p>
+      <SortableList
+        items={fields}
+        getKey={(field) => field.key}
+        getLabel={(field) => SECTION_LABELS[field.id]}
+        onMove={move}
+      >
+        {(field, index, handle) => (
+          <FormField
+            control={control}
+            name={`sections.${index}.hidden`}
+            render={({ field: hidden }) => (
+              <FormItem className="flex items-center gap-2 space-y-0 rounded-lg border p-2">
+                {handle}
+                <FormLabel className="flex-1 font-normal">{SECTION_LABELS[field.id]}</FormLabel>
+                <FormControl>
+                  <Switch checked={!hidden.value} onCheckedChange={(visible) => hidden.onChange(!visible)} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+      </SortableList>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { useEffect, useRef, useState, type KeyboardEvent, type ReactNode } from "react"
+import { GripVertical } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface SortableListProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  /** Spoken when an item is picked up or moved. */
+  getLabel: (item: T, index: number) => string
+  onMove: (from: number, to: number) => void
+  children: (item: T, index: number, handle: ReactNode) => ReactNode
+  className?: string
+}
+
+/**
+ * A vertical list reordered by dragging an item's handle or, for keyboard
+ * users, by focusing the handle and pressing the arrow keys. Home and End move
+ * the item to either end of the list.
+ */
+export function SortableList<T>({ items, getKey, getLabel, onMove, children, className }: SortableListProps<T>) {
+  // Only the item whose handle is pressed is draggable, so text inside inputs
+  // stays selectable with the mouse.
+  const [armedIndex, setArmedIndex] = useState<number>()
+  const [dragIndex, setDragIndex] = useState<number>()
+  const [overIndex, setOverIndex] = useState<number>()
+  const [announcement, setAnnouncement] = useState("")
+  const handles = useRef(new Map<string, HTMLButtonElement>())
+  const focusKey = useRef<string | undefined>(undefined)
+
+  useEffect(() => {
+    if (!focusKey.current) return
+    handles.current.get(focusKey.current)?.focus()
+    focusKey.current = undefined
+  })
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= items.length || to === from) return
+    focusKey.current = getKey(items[from])
+    onMove(from, to)
+    setAnnouncement(`${getLabel(items[from], from)} moved to position ${to + 1} of ${items.length}`)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: items.length - 1,
+    }
+    if (!(event.key in targets)) return
+    event.preventDefault()
+    move(index, targets[event.key])
+  }
+
+  const reset = () => {
+    setArmedIndex(undefined)
+    setDragIndex(undefined)
+    setOverIndex(undefined)
+  }
+
+  return (
+    <>
+      <ul className={cn("space-y-2", className)}>
+        {items.map((item, index) => {
+          const key = getKey(item)
+          const handle = (
+            <button
+              type="button"
+              ref={(element) => {
+                if (element) handles.current.set(key, element)
+                else handles.current.delete(key)
+              }}
+              className="cursor-grab rounded p-1 text-muted-foreground hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring active:cursor-grabbing"
+              aria-label={`Reorder ${getLabel(item, index)}. Use arrow keys to move.`}
+              onPointerDown={() => setArmedIndex(index)}
+              onPointerUp={() => setArmedIndex(undefined)}
+              onKeyDown={(event) => handleKeyDown(event, index)}
+            >
+              <GripVertical className="h-4 w-4" />
+            </button>
+          )
+          return (
+            <li
+              key={key}
+              draggable={armedIndex === index}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move"
+                event.dataTransfer.setData("text/plain", key)
+                setDragIndex(index)
+              }}
+              onDragOver={(event) => {
+                if (dragIndex === undefined) return
+                event.preventDefault()
+                setOverIndex(index)
+              }}
+              onDrop={(event) => {
+                event.preventDefault()
+                if (dragIndex !== undefined) move(dragIndex, index)
+                reset()
+              }}
+              onDragEnd={reset}
+              className={cn(
+                "rounded-lg transition-shadow",
+                dragIndex === index && "opacity-50",
+                overIndex === index && dragIndex !== index && "ring-2 ring-ring",
+              )}
+            >
+              {children(item, index, handle)}
+            </li>
+          )
+        })}
+      </ul>
+      <p aria-live="assertive" className="sr-only">
+        {announcement}
+      </p>
+    </>
+  )
+}
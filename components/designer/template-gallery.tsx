@@ -0,0 +1,83 @@
+"use client"
+
+import { useFormContext } from "react-hook-form"
+import { Check } from "lucide-react"
+import { cardTemplateIds, getCardTemplate } from "@/components/card/templates"
+import DelightCardLanding from "@/components/delight-card-landing"
+import type { CardBlockType, CardProfile, CardTemplateId } from "@/lib/card-profile"
+import { cn } from "@/lib/utils"
+
+/** Thumbnails render the card at this width, then scale it down. */
+const FRAME_WIDTH = 800
+const THUMBNAIL_SCALE = 0.3
+
+/** Blocks whose forms would nest inside the designer's own <form>; thumbnails leave them out. */
+const FORM_BLOCKS = new Set<CardBlockType>(["lead-form", "booking"])
+
+interface TemplateGalleryProps {
+  slug: string
+  systemScheme?: "light" | "dark"
+}
+
+/** Live thumbnails of the current card in every template; picking one switches the card over. */
+export function TemplateGallery({ slug, systemScheme }: TemplateGalleryProps) {
+  const { watch, setValue } = useFormContext<CardProfile>()
+  const profile = watch()
+  const selected = profile.template ?? "classic"
+  const select = (id: CardTemplateId) => setValue("template", id, { shouldDirty: true })
+
+  return (
+    <div role="radiogroup" aria-label="Card template" className="grid grid-cols-[repeat(auto-fill,minmax(240px,1fr))] gap-3">
+      {cardTemplateIds.map((id) => {
+        const template = getCardTemplate(id)
+        const checked = id === selected
+        return (
+          // Not a <button>: the thumbnail contains the card's links, which buttons may not.
+          <div
+            key={id}
+            role="radio"
+            aria-checked={checked}
+            aria-label={template.label}
+            tabIndex={0}
+            onClick={() => select(id)}
+            onKeyDown={(event) => {
+              if (event.key !== "Enter" && event.key !== " ") return
+              event.preventDefault()
+              select(id)
+            }}
+            className={cn(
+              "cursor-pointer rounded-lg border p-2 text-left transition-colors hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              checked && "border-primary ring-1 ring-primary",
+            )}
+          >
+            <div
+              className="relative overflow-hidden rounded-md bg-muted"
+              style={{ width: FRAME_WIDTH * THUMBNAIL_SCALE, height: 180 }}
+              aria-hidden
+            >
+              <div
+                className="pointer-events-none absolute left-0 top-0 origin-top-left"
+                style={{ width: FRAME_WIDTH, transform: `scale(${THUMBNAIL_SCALE})` }}
+                inert
+              >
+                <DelightCardLanding
+                  slug={slug}
+                  profile={{ ...profile, template: id, blocks: profile.blocks?.filter((block) => !FORM_BLOCKS.has(block.type)) }}
+                  systemScheme={systemScheme}
+                  className="min-h-0"
+                />
+              </div>
+            </div>
+            <div className="mt-2 flex items-start justify-between gap-2">
+              <div>
+                <p className="text-sm font-medium">{template.label}</p>
+                <p className="text-muted-foreground text-xs">{template.description}</p>
+              </div>
+              {checked && <Check className="h-4 w-4 flex-shrink-0 text-primary" />}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
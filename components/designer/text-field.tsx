@@ -0,0 +1,42 @@
+"use client"
+
+import { useFormContext, type FieldPathByValue } from "react-hook-form"
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import type { CardProfile } from "@/lib/card-profile"
+
+export type TextFieldPath = FieldPathByValue<CardProfile, string | undefined>
+
+interface TextFieldProps {
+  name: TextFieldPath
+  label: string
+  placeholder?: string
+  description?: string
+  multiline?: boolean
+}
+
+export function TextField({ name, label, placeholder, description, multiline }: TextFieldProps) {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            {multiline ? (
+              <Textarea {...field} value={field.value ?? ""} placeholder={placeholder} />
+            ) : (
+              <Input {...field} value={field.value ?? ""} placeholder={placeholder} />
+            )}
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
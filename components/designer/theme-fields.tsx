@@ -0,0 +1,88 @@
+"use client"
+
+import { useFormContext } from "react-hook-form"
+import { BrandKit } from "@/components/designer/brand-kit"
+import { ColorField } from "@/components/designer/color-field"
+import { Button } from "@/components/ui/button"
+import { FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import type { CardProfile } from "@/lib/card-profile"
+import { defaultCardTheme } from "@/lib/card-theme"
+
+export function ThemeFields() {
+  const { control, getValues, setValue } = useFormContext<CardProfile>()
+
+  return (
+    <div className="space-y-4">
+      <BrandKit />
+
+      <FormField
+        control={control}
+        name="theme.colorScheme"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Appearance</FormLabel>
+            <Select value={field.value ?? "light"} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="light">Light</SelectItem>
+                <SelectItem value="dark">Dark</SelectItem>
+                <SelectItem value="system">Match visitor&apos;s system</SelectItem>
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-2 gap-3">
+        <ColorField name="theme.primary" label="Primary" />
+        <ColorField name="theme.accent" label="Accent" />
+        <ColorField name="theme.surface" label="Surface" />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <ColorField name="theme.gradient.from" label="Cover start" />
+        <ColorField name="theme.gradient.via" label="Cover middle" />
+        <ColorField name="theme.gradient.to" label="Cover end" />
+      </div>
+
+      <FormField
+        control={control}
+        name="theme.radius"
+        render={({ field }) => (
+          <FormItem>
+            <div className="flex items-center justify-between">
+              <FormLabel>Corner radius</FormLabel>
+              <span className="text-muted-foreground text-sm">{field.value}rem</span>
+            </div>
+            <FormControl>
+              <Slider
+                min={0}
+                max={2}
+                step={0.125}
+                value={[field.value ?? defaultCardTheme.radius]}
+                onValueChange={([value]) => field.onChange(value)}
+              />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          setValue("theme", { ...defaultCardTheme, colorScheme: getValues("theme.colorScheme") }, { shouldDirty: true })
+        }
+      >
+        Reset to default colors
+      </Button>
+    </div>
+  )
+}
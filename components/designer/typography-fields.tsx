@@ -0,0 +1,126 @@
+"use client"
+
+import { useFormContext } from "react-hook-form"
+import { FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { CardProfile } from "@/lib/card-profile"
+import { fontFamilyIds, fontWeights, getFontFamily, type FontFamilyId } from "@/lib/font-catalog"
+import { fontStack } from "@/lib/fonts"
+
+const WEIGHT_NAMES: Record<number, string> = {
+  100: "Thin",
+  200: "Extra light",
+  300: "Light",
+  400: "Regular",
+  500: "Medium",
+  600: "Semibold",
+  700: "Bold",
+  800: "Extra bold",
+  900: "Black",
+  1000: "Extra black",
+}
+
+interface FontPairProps {
+  role: "heading" | "body"
+  label: string
+}
+
+function FontPair({ role, label }: FontPairProps) {
+  const { control, getValues, setValue, watch } = useFormContext<CardProfile>()
+  const family = watch(`typography.${role}`) ?? "inter"
+  const weightName = role === "heading" ? "typography.headingWeight" : "typography.bodyWeight"
+
+  const changeFamily = (id: FontFamilyId) => {
+    setValue(`typography.${role}`, id, { shouldDirty: true })
+    // Keep the weight inside the new family's axis.
+    const [min, max] = getFontFamily(id).weights
+    const weight = getValues(weightName) ?? 400
+    if (weight < min || weight > max) setValue(weightName, Math.min(max, Math.max(min, weight)), { shouldDirty: true })
+  }
+
+  return (
+    <div className="grid grid-cols-[1fr_auto] gap-2">
+      <FormField
+        control={control}
+        name={`typography.${role}`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{label}</FormLabel>
+            <Select value={field.value} onValueChange={(value) => changeFamily(value as FontFamilyId)}>
+              <FormControl>
+                <SelectTrigger style={{ fontFamily: field.value && fontStack(field.value) }}>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {fontFamilyIds.map((id) => (
+                  <SelectItem key={id} value={id} style={{ fontFamily: fontStack(id) }}>
+                    {getFontFamily(id).label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={weightName}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Weight</FormLabel>
+            <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+              <FormControl>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {fontWeights(family).map((weight) => (
+                  <SelectItem key={weight} value={String(weight)}>
+                    {WEIGHT_NAMES[weight]} ({weight})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FormItem>
+        )}
+      />
+    </div>
+  )
+}
+
+export function TypographyFields() {
+  const { control } = useFormContext<CardProfile>()
+
+  return (
+    <div className="space-y-4">
+      <FontPair role="heading" label="Heading font" />
+      <FontPair role="body" label="Body font" />
+      <FormField
+        control={control}
+        name="typography.scale"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Text size</FormLabel>
+            <FormControl>
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                className="justify-start"
+                value={field.value}
+                // Radix reports an empty value when the active item is clicked again.
+                onValueChange={(value) => value && field.onChange(value)}
+              >
+                <ToggleGroupItem value="sm">Small</ToggleGroupItem>
+                <ToggleGroupItem value="md">Medium</ToggleGroupItem>
+                <ToggleGroupItem value="lg">Large</ToggleGroupItem>
+              </ToggleGroup>
+            </FormControl>
+          </FormItem>
+        )}
+      />
+    </div>
+  )
+}
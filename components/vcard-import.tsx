@@ -0,0 +1,172 @@
+"use client"
+
+import { useState, useTransition, type ChangeEvent } from "react"
+import Image from "next/image"
+import { AlertTriangle, FileUp } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { formatAddress } from "@/lib/card-profile"
+import { parseVCards, vcardToProfile, type VCardImport as VCardImportResult } from "@/lib/vcard"
+import { importCard } from "@/app/(site)/import/actions"
+
+function slugFor(name: string) {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+}
+
+function ReviewRow({ label, value }: { label: string; value?: string }) {
+  return (
+    <div className="flex gap-3 py-2 border-b border-gray-100 last:border-0 text-sm">
+      <span className="w-28 flex-shrink-0 text-gray-500">{label}</span>
+      <span className={value ? "text-gray-900 break-all" : "text-gray-400 italic"}>{value || "Not provided"}</span>
+    </div>
+  )
+}
+
+export default function VCardImport() {
+  const [result, setResult] = useState<VCardImportResult>()
+  const [cardCount, setCardCount] = useState(0)
+  const [slug, setSlug] = useState("")
+  const [error, setError] = useState<string>()
+  const [isPending, startTransition] = useTransition()
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setError(undefined)
+    const cards = parseVCards(await file.text())
+    if (cards.length === 0) {
+      setResult(undefined)
+      setError("No contacts were found in this file.")
+      return
+    }
+
+    const imported = vcardToProfile(cards[0])
+    setCardCount(cards.length)
+    setResult(imported)
+    setSlug(slugFor(imported.profile.identity.name))
+  }
+
+  const handleCreate = () => {
+    if (!result) return
+    startTransition(async () => {
+      const state = await importCard(slug, result.profile)
+      setError(state.error)
+    })
+  }
+
+  if (!result) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <Label
+            htmlFor="vcf-file"
+            className="flex flex-col items-center justify-center gap-2 border-2 border-dashed border-violet-200 rounded-xl py-10 cursor-pointer hover:bg-violet-50 transition-colors"
+          >
+            <FileUp className="w-8 h-8 text-violet-500" />
+            <span className="font-semibold text-gray-800">Choose a .vcf file</span>
+            <span className="text-gray-500 text-sm">vCard 2.1, 3.0 and 4.0 are supported</span>
+          </Label>
+          <Input id="vcf-file" type="file" accept=".vcf,text/vcard,text/x-vcard" className="sr-only" onChange={handleFile} />
+          {error && <p className="text-sm font-medium text-destructive mt-4">{error}</p>}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const { profile, unmapped } = result
+  const { identity } = profile
+
+  return (
+    <div className="space-y-4">
+      {cardCount > 1 && (
+        <Alert>
+          <AlertTitle>Only the first contact is imported</AlertTitle>
+          <AlertDescription>This file contains {cardCount} contacts.</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center gap-4 mb-4">
+            <div className="w-16 h-16 rounded-full overflow-hidden border border-gray-200 flex-shrink-0">
+              <Image
+                src={identity.avatar.src}
+                alt={identity.avatar.alt}
+                width={64}
+                height={64}
+                className="w-full h-full object-cover"
+              />
+            </div>
+            <div>
+              <p className="text-lg font-bold text-gray-900">{identity.name || "Unnamed contact"}</p>
+              <p className="text-gray-600 text-sm">{[identity.title, identity.organization].filter(Boolean).join(" · ")}</p>
+            </div>
+          </div>
+
+          <ReviewRow label="Location" value={identity.location} />
+          {profile.contacts.map((contact, index) => (
+            <ReviewRow key={index} label={contact.kind} value={contact.value} />
+          ))}
+          {profile.addresses.map((address, index) => (
+            <ReviewRow key={index} label="Postal address" value={formatAddress(address)} />
+          ))}
+          <ReviewRow label="Note" value={identity.note} />
+        </CardContent>
+      </Card>
+
+      {unmapped.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {unmapped.length} {unmapped.length === 1 ? "field was" : "fields were"} not imported
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-1">
+              {unmapped.map((field, index) => (
+                <li key={index} className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{field.property}</Badge>
+                  <span className="break-all">{field.value}</span>
+                  <span className="text-muted-foreground">— {field.reason}</span>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-6 space-y-2">
+          <Label htmlFor="card-slug">Card address</Label>
+          <div className="flex items-center gap-1 text-sm text-gray-500">
+            <span>/c/</span>
+            <Input id="card-slug" value={slug} onChange={(event) => setSlug(event.target.value)} />
+          </div>
+          {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+
+      <div className="flex gap-3">
+        <Button variant="outline" onClick={() => setResult(undefined)} disabled={isPending}>
+          Start over
+        </Button>
+        <Button
+          className="flex-1 bg-violet-600 hover:bg-violet-700"
+          onClick={handleCreate}
+          disabled={isPending || !identity.name || !slug}
+        >
+          {isPending ? "Creating…" : "Create card"}
+        </Button>
+      </div>
+    </div>
+  )
+}
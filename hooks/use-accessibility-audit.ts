@@ -0,0 +1,77 @@
+import * as React from "react"
+import type { CardProfile, CardSectionId } from "@/lib/card-profile"
+import { auditCard, type AuditFinding } from "@/lib/card-audit"
+
+/** WCAG 2.5.8 (AA) minimum, and the 44px that 2.5.5 and platform guidelines recommend. */
+const MIN_TARGET = 24
+const COMFORTABLE_TARGET = 44
+/** Let typing settle before measuring the preview again. */
+const MEASURE_DELAY_MS = 300
+
+export interface TouchTargetFinding extends AuditFinding {
+  /** The undersized control in the preview. */
+  element: HTMLElement
+}
+
+function measureTouchTargets(root: HTMLElement): TouchTargetFinding[] {
+  const findings: TouchTargetFinding[] = []
+  root.querySelectorAll<HTMLElement>("a[href], button").forEach((element, index) => {
+    // Layout sizes, so a zoomed or scaled preview still reports CSS pixels.
+    const width = element.offsetWidth
+    const height = element.offsetHeight
+    if (width === 0 && height === 0) return
+    const smallest = Math.min(width, height)
+    if (smallest >= COMFORTABLE_TARGET) return
+
+    const name = element.getAttribute("aria-label") ?? element.textContent?.trim()
+    const section = element.closest<HTMLElement>("[data-card-section]")?.dataset.cardSection as CardSectionId | undefined
+    findings.push({
+      id: `touch-target:${index}`,
+      rule: "touch-target",
+      severity: smallest < MIN_TARGET ? "error" : "warning",
+      message: `${name ? `"${name}"` : "A link"} is ${width}×${height}px; tap targets should be at least ${
+        smallest < MIN_TARGET ? MIN_TARGET : COMFORTABLE_TARGET
+      }px each way.`,
+      section,
+      element,
+    })
+  })
+  return findings
+}
+
+/**
+ * Audits the card being designed. Profile checks rerun on every change; touch
+ * targets are measured from the rendered preview under `previewRoot` whenever
+ * its content or size changes.
+ */
+export function useAccessibilityAudit(profile: CardProfile, previewRoot: HTMLElement | null) {
+  const [touchTargets, setTouchTargets] = React.useState<TouchTargetFinding[]>([])
+
+  React.useEffect(() => {
+    const root = previewRoot
+    if (!root) {
+      setTouchTargets([])
+      return
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const schedule = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => setTouchTargets(measureTouchTargets(root)), MEASURE_DELAY_MS)
+    }
+    schedule()
+
+    const mutations = new MutationObserver(schedule)
+    mutations.observe(root, { subtree: true, childList: true, characterData: true, attributeFilter: ["class", "style", "href"] })
+    const resizes = new ResizeObserver(schedule)
+    resizes.observe(root)
+    return () => {
+      clearTimeout(timer)
+      mutations.disconnect()
+      resizes.disconnect()
+    }
+  }, [previewRoot])
+
+  // Profile checks are cheap enough to run on every render.
+  return [...auditCard(profile), ...touchTargets]
+}
@@ -0,0 +1,100 @@
+import * as React from "react"
+import type { FieldValues, UseFormReturn } from "react-hook-form"
+
+/** Keystrokes in the same field closer together than this become one step. */
+const COALESCE_MS = 1000
+const MAX_ENTRIES = 100
+
+export interface HistoryEntry<T> {
+  /** Form path of the change, or undefined for the initial state. */
+  name?: string
+  values: T
+  at: number
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[]
+  index: number
+}
+
+function isEditableTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))
+}
+
+/**
+ * Records every change to a form as an undoable step. Consecutive typing in
+ * one field is merged into a single step, and Ctrl+Z / Ctrl+Shift+Z (Cmd on
+ * macOS, plus Ctrl+Y) move through the history from anywhere on the page.
+ */
+export function useFormHistory<T extends FieldValues>(form: UseFormReturn<T>) {
+  const [history, setHistory] = React.useState<HistoryState<T>>(() => ({
+    entries: [{ values: structuredClone(form.getValues()), at: Date.now() }],
+    index: 0,
+  }))
+  // The serialized current entry, so restores and no-op resets are not recorded.
+  const current = React.useRef(JSON.stringify(history.entries[0].values))
+  // Cleared after a jump so the next keystroke starts a new step.
+  const mergeable = React.useRef(true)
+
+  React.useEffect(() => {
+    const subscription = form.watch((values, { name, type }) => {
+      const serialized = JSON.stringify(values)
+      if (serialized === current.current) return
+      current.current = serialized
+
+      const now = Date.now()
+      const snapshot = structuredClone(values) as T
+      const canMerge = mergeable.current
+      mergeable.current = true
+      setHistory(({ entries, index }) => {
+        const last = entries[index]
+        const coalesce =
+          canMerge && type === "change" && name !== undefined && last.name === name && now - last.at < COALESCE_MS
+        if (coalesce) {
+          const merged = [...entries.slice(0, index), { name, values: snapshot, at: now }]
+          return { entries: merged, index }
+        }
+        const next = [...entries.slice(0, index + 1), { name, values: snapshot, at: now }].slice(-MAX_ENTRIES)
+        return { entries: next, index: next.length - 1 }
+      })
+    })
+    return () => subscription.unsubscribe()
+  }, [form])
+
+  const goTo = React.useCallback(
+    (target: number) => {
+      const entry = history.entries[target]
+      if (!entry || target === history.index) return
+      current.current = JSON.stringify(entry.values)
+      mergeable.current = false
+      // Keeping the default values lets isDirty compare against the last save.
+      form.reset(structuredClone(entry.values), { keepDefaultValues: true })
+      setHistory(({ entries }) => ({ entries, index: target }))
+    },
+    [form, history],
+  )
+
+  const canUndo = history.index > 0
+  const canRedo = history.index < history.entries.length - 1
+  const undo = React.useCallback(() => goTo(history.index - 1), [goTo, history.index])
+  const redo = React.useCallback(() => goTo(history.index + 1), [goTo, history.index])
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const key = event.key.toLowerCase()
+      const isUndo = key === "z" && !event.shiftKey
+      const isRedo = (key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey)
+      if (!isUndo && !isRedo) return
+      // Inside a field with nothing left to undo, let the browser handle it.
+      if (isEditableTarget(event.target) && !(isUndo ? canUndo : canRedo)) return
+      event.preventDefault()
+      if (isUndo) undo()
+      else redo()
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [undo, redo, canUndo, canRedo])
+
+  return { entries: history.entries, index: history.index, canUndo, canRedo, undo, redo, goTo }
+}
@@ -0,0 +1,53 @@
+import * as React from "react"
+import type { CardBanner } from "@/lib/card-profile"
+import { bannerStatus, nextBannerChange } from "@/lib/banners"
+
+const STORAGE_KEY = "card-banners-dismissed"
+
+function readDismissed(): string[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * The banners to show right now: live on their schedule and not dismissed by
+ * this visitor. Banners switch on and off at their start and end times while
+ * the page stays open.
+ *
+ * Dismissals live in localStorage, which the server cannot see, so
+ * dismissible banners only appear once it has been read.
+ */
+export function useLiveBanners(banners: CardBanner[]) {
+  // Bumped at each start or end time to re-render; statuses read the clock directly.
+  const [tick, setTick] = React.useState(0)
+  const [dismissed, setDismissed] = React.useState<string[]>()
+
+  React.useEffect(() => setDismissed(readDismissed()), [])
+
+  React.useEffect(() => {
+    const next = nextBannerChange(banners, Date.now())
+    if (next === undefined) return
+    // Timers cannot wait longer than about 24.8 days; re-check then.
+    const timer = setTimeout(() => setTick((value) => value + 1), Math.min(next - Date.now() + 50, 2 ** 31 - 1))
+    return () => clearTimeout(timer)
+  }, [banners, tick])
+
+  const dismiss = React.useCallback((id: string) => {
+    const next = [...new Set([...readDismissed(), id])]
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    setDismissed(next)
+  }, [])
+
+  const now = Date.now()
+  const live = banners.filter((banner) => {
+    if (bannerStatus(banner, now) !== "live") return false
+    if (!banner.dismissible) return true
+    return dismissed !== undefined && !(banner.id && dismissed.includes(banner.id))
+  })
+
+  return { banners: live, dismiss }
+}
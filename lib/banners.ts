@@ -0,0 +1,56 @@
+import { CalendarDays, Gift, Info, Megaphone, Sparkles, TriangleAlert, type LucideIcon } from "lucide-react"
+import type { CardBanner, CardProfile } from "@/lib/card-profile"
+
+/** Icons a banner can lead with. The keys are the ids stored in profiles. */
+const bannerIcons = {
+  info: { label: "Info", icon: Info },
+  megaphone: { label: "Announcement", icon: Megaphone },
+  sparkles: { label: "New", icon: Sparkles },
+  calendar: { label: "Event", icon: CalendarDays },
+  gift: { label: "Offer", icon: Gift },
+  alert: { label: "Alert", icon: TriangleAlert },
+} satisfies Record<string, { label: string; icon: LucideIcon }>
+
+export type BannerIconId = keyof typeof bannerIcons
+
+export const bannerIconIds = Object.keys(bannerIcons) as [BannerIconId, ...BannerIconId[]]
+
+export function getBannerIcon(id: BannerIconId = "info") {
+  return bannerIcons[id]
+}
+
+export const bannerVariantIds = ["glass", "solid", "dark"] as const
+
+export type BannerVariant = (typeof bannerVariantIds)[number]
+
+export const bannerVariantLabels: Record<BannerVariant, string> = {
+  glass: "Frosted",
+  solid: "Primary color",
+  dark: "Dark",
+}
+
+/**
+ * The card's banner queue in display order. Profiles from before the queue
+ * stored a single `banner`, which becomes a one-item queue.
+ */
+export function resolveBanners(profile: CardProfile): CardBanner[] {
+  if (profile.banners) return profile.banners
+  return profile.banner ? [profile.banner] : []
+}
+
+export type BannerStatus = "scheduled" | "live" | "ended"
+
+export function bannerStatus(banner: CardBanner, now = Date.now()): BannerStatus {
+  if (banner.startsAt && Date.parse(banner.startsAt) > now) return "scheduled"
+  if (banner.endsAt && Date.parse(banner.endsAt) <= now) return "ended"
+  return "live"
+}
+
+/** When the next banner in `banners` starts or ends after `now`, or undefined if none will. */
+export function nextBannerChange(banners: CardBanner[], now = Date.now()) {
+  const upcoming = banners
+    .flatMap((banner) => [banner.startsAt, banner.endsAt])
+    .map((value) => (value ? Date.parse(value) : Number.NaN))
+    .filter((time) => time > now)
+  return upcoming.length > 0 ? Math.min(...upcoming) : undefined
+}
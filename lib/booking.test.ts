@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { bookingSlots, type BookingBlock } from "@/lib/booking"
+
+/** Mondays 09:00–11:00 UTC, 30-minute meetings, no buffers. */
+const block: BookingBlock = {
+  id: "bk1",
+  type: "booking",
+  timeZone: "UTC",
+  availability: [{ day: 1, start: "09:00", end: "11:00" }],
+  durations: [30],
+  bufferBefore: 0,
+  bufferAfter: 0,
+  noticeHours: 0,
+  horizonDays: 14,
+}
+
+const MONDAY = "2025-03-03"
+const SATURDAY_BEFORE = Date.parse("2025-03-01T00:00:00Z")
+
+const starts = (slots: { start: string }[]) => slots.map((slot) => slot.start.slice(11, 16))
+
+describe("bookingSlots", () => {
+  it("offers starts every 15 minutes that fit before the opening closes", () => {
+    const slots = bookingSlots(block, MONDAY, 30, [], SATURDAY_BEFORE)
+    expect(starts(slots)).toEqual(["09:00", "09:15", "09:30", "09:45", "10:00", "10:15", "10:30"])
+    expect(slots.at(-1)).toEqual({ start: "2025-03-03T10:30:00.000Z", end: "2025-03-03T11:00:00.000Z" })
+  })
+
+  it("offers nothing on days without openings", () => {
+    expect(bookingSlots(block, "2025-03-04", 30, [], SATURDAY_BEFORE)).toEqual([])
+  })
+
+  it("keeps the buffers clear on both sides of busy times", () => {
+    const busy = [{ start: "2025-03-03T09:30:00.000Z", end: "2025-03-03T10:00:00.000Z" }]
+    const buffered = { ...block, bufferBefore: 15, bufferAfter: 15 }
+    expect(starts(bookingSlots(buffered, MONDAY, 30, busy, SATURDAY_BEFORE))).toEqual(["10:15", "10:30"])
+    expect(starts(bookingSlots({ ...block, bufferAfter: 30 }, MONDAY, 30, busy, SATURDAY_BEFORE))).toEqual(["10:30"])
+  })
+
+  it("offers the next start the buffers allow after a booked slot", () => {
+    const buffered = { ...block, bufferAfter: 15 }
+    const [first] = bookingSlots(buffered, MONDAY, 30, [], SATURDAY_BEFORE)
+    const next = bookingSlots(buffered, MONDAY, 30, [first], SATURDAY_BEFORE)
+    expect(starts(next)[0]).toBe("09:45")
+  })
+
+  it("respects the notice period", () => {
+    const now = Date.parse("2025-03-03T09:20:00Z")
+    expect(starts(bookingSlots({ ...block, noticeHours: 1 }, MONDAY, 30, [], now))).toEqual(["10:30"])
+  })
+
+  it("offers nothing past the horizon", () => {
+    expect(bookingSlots({ ...block, horizonDays: 2 }, MONDAY, 30, [], SATURDAY_BEFORE)).toHaveLength(7)
+    expect(bookingSlots({ ...block, horizonDays: 1 }, MONDAY, 30, [], SATURDAY_BEFORE)).toEqual([])
+  })
+
+  it("reads openings in the block's time zone", () => {
+    const newYork = { ...block, timeZone: "America/New_York" }
+    // Daylight saving time starts on 9 March 2025.
+    expect(bookingSlots(newYork, MONDAY, 30, [], SATURDAY_BEFORE)[0].start).toBe("2025-03-03T14:00:00.000Z")
+    expect(bookingSlots(newYork, "2025-03-10", 30, [], SATURDAY_BEFORE)[0].start).toBe("2025-03-10T13:00:00.000Z")
+  })
+})
@@ -0,0 +1,141 @@
+import { z } from "zod"
+import type { CardBlock, CardProfile } from "@/lib/card-profile"
+import type { CalendarEvent } from "@/lib/ics"
+import { addDays, weekdayOf, zonedParts, zonedTimeToInstant } from "@/lib/time-zone"
+
+export type BookingBlock = Extract<CardBlock, { type: "booking" }>
+
+export const weekdayLabels = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+/** Monday first, the order the designer lists weekdays in. */
+export const weekdayOrder = [1, 2, 3, 4, 5, 6, 0]
+
+/** A stored meeting. Times are UTC instants; each block's zone only shapes its openings. */
+export const bookingSchema = z.object({
+  id: z.string().min(1),
+  blockId: z.string().min(1),
+  start: z.string().datetime({ offset: true }),
+  end: z.string().datetime({ offset: true }),
+  createdAt: z.string().datetime({ offset: true }),
+  name: z.string().min(1),
+  email: z.string().email(),
+  note: z.string().optional(),
+})
+
+export type Booking = z.infer<typeof bookingSchema>
+
+/** Time already taken on the owner's calendar. Visitors see these, without who booked them. */
+export type BusyTime = Pick<Booking, "start" | "end">
+
+/** The visitor's details; the browser validates the same fields before sending. */
+export const bookingDetailsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Keep it under 100 characters"),
+  email: z.string().trim().min(1, "Email is required").max(254).email("Enter a valid email address"),
+  note: z.string().trim().max(2000, "Keep it under 2000 characters").optional(),
+})
+
+export type BookingDetails = z.infer<typeof bookingDetailsSchema>
+
+export const bookingRequestSchema = bookingDetailsSchema.extend({
+  blockId: z.string().min(1),
+  start: z.string().datetime({ offset: true }),
+  /** Minutes; must be one of the block's meeting lengths. */
+  duration: z.number().int().positive(),
+})
+
+export interface BookingSlot {
+  start: string
+  end: string
+}
+
+const MINUTE = 60_000
+
+/**
+ * Minutes between offered start times. A fixed step, rather than the meeting
+ * length, lets a slot start as soon as a busy time's buffers allow and keeps
+ * openings for every meeting length on the same grid.
+ */
+const SLOT_STEP = 15
+
+function overlaps(startA: number, endA: number, startB: number, endB: number) {
+  return startA < endB && startB < endA
+}
+
+/**
+ * Whether a meeting from `start` to `end` leaves the block's buffers clear
+ * around every busy time, and theirs clear around it. Back-to-back meetings
+ * end up the larger of the two buffers apart.
+ */
+function isFree(block: BookingBlock, start: number, end: number, busy: BusyTime[]) {
+  const before = block.bufferBefore * MINUTE
+  const after = block.bufferAfter * MINUTE
+  return busy.every((taken) => {
+    const takenStart = Date.parse(taken.start)
+    const takenEnd = Date.parse(taken.end)
+    return (
+      !overlaps(start, end, takenStart - before, takenEnd + after) &&
+      !overlaps(start - before, end + after, takenStart, takenEnd)
+    )
+  })
+}
+
+/**
+ * Open start times on one day of the owner's calendar (YYYY-MM-DD in the
+ * block's zone) for a meeting of `duration` minutes. Slots start at the
+ * beginning of each opening and every `SLOT_STEP` minutes after, must fit
+ * before it closes, respect the notice period and booking horizon, and keep
+ * the buffers clear around `busy` times.
+ */
+export function bookingSlots(block: BookingBlock, date: string, duration: number, busy: BusyTime[], now = Date.now()) {
+  const length = duration * MINUTE
+  const step = SLOT_STEP * MINUTE
+  const earliest = now + block.noticeHours * 60 * MINUTE
+  const lastDay = addDays(zonedParts(now, block.timeZone).date, block.horizonDays)
+  if (date > lastDay) return []
+
+  const starts = new Set<number>()
+  for (const window of block.availability) {
+    if (window.day !== weekdayOf(date)) continue
+    const close = zonedTimeToInstant(date, window.end, block.timeZone)
+    for (let start = zonedTimeToInstant(date, window.start, block.timeZone); start + length <= close; start += step) {
+      if (start >= earliest && isFree(block, start, start + length, busy)) starts.add(start)
+    }
+  }
+
+  return [...starts]
+    .sort((a, b) => a - b)
+    .map((start): BookingSlot => ({ start: new Date(start).toISOString(), end: new Date(start + length).toISOString() }))
+}
+
+/** Today's date on the owner's calendar, as YYYY-MM-DD in the block's zone. */
+export function bookingToday(block: BookingBlock, now = Date.now()) {
+  return zonedParts(now, block.timeZone).date
+}
+
+export function formatDuration(minutes: number) {
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest ? `${hours} h ${rest} min` : `${hours} h`
+}
+
+/**
+ * The calendar entry for a booking, the same for both parties. The site's
+ * `host` name makes the UID globally unique. Blocks deleted since the booking
+ * give no location.
+ */
+export function bookingEvent(profile: CardProfile, block: BookingBlock | undefined, booking: Booking, host: string): CalendarEvent {
+  const owner = profile.identity.name
+  const email = profile.contacts.find((contact) => contact.kind === "email" && !contact.hidden)?.value
+  return {
+    uid: `${booking.id}@${host}`,
+    start: booking.start,
+    end: booking.end,
+    created: booking.createdAt,
+    summary: `Meeting: ${owner} and ${booking.name}`,
+    description: booking.note,
+    location: block?.location,
+    organizer: email ? { name: owner, email } : undefined,
+    attendees: [{ name: booking.name, email: booking.email }],
+  }
+}
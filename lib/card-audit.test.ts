@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import { auditCard, type AuditRule } from "@/lib/card-audit"
+import { createCardProfile, type CardProfile } from "@/lib/card-profile"
+import { defaultCardTheme } from "@/lib/card-theme"
+
+function profile(changes: Partial<CardProfile> = {}): CardProfile {
+  return { ...createCardProfile("Jane Doe"), ...changes }
+}
+
+function findings(card: CardProfile, rule: AuditRule) {
+  return auditCard(card).filter((finding) => finding.rule === rule)
+}
+
+const ids = (card: CardProfile, rule: AuditRule) => findings(card, rule).map((finding) => finding.id)
+
+describe("auditCard", () => {
+  describe("contrast", () => {
+    const yellow = { ...defaultCardTheme, primary: "#ffee00" }
+
+    it("flags text below 4.5:1", () => {
+      const title = findings(profile({ theme: yellow }), "contrast").find((finding) => finding.id === "contrast:title:light")
+      expect(title).toMatchObject({ severity: "error", section: "profile" })
+      expect(title?.message).toMatch(/^Job title: 1\.\d:1 contrast, below the 4\.5:1 minimum\.$/)
+    })
+
+    it("checks both modes when the card follows the system", () => {
+      const navy = { ...defaultCardTheme, primary: "#000080" }
+      expect(ids(profile({ theme: navy }), "contrast")).not.toContain("contrast:title:dark")
+      expect(ids(profile({ theme: { ...navy, colorScheme: "dark" } }), "contrast")).toEqual(["contrast:title:dark"])
+      expect(ids(profile({ theme: { ...navy, colorScheme: "system" } }), "contrast")).toContain("contrast:title:dark")
+      expect(ids(profile({ theme: { ...yellow, colorScheme: "system" } }), "contrast")).toContain("contrast:title:light")
+    })
+
+    it("skips hidden sections", () => {
+      const card = profile({ theme: yellow, sections: [{ id: "profile", hidden: true }] })
+      expect(ids(card, "contrast").filter((id) => id.startsWith("contrast:title"))).toEqual([])
+    })
+  })
+
+  describe("alt text", () => {
+    it("flags the photo and logo without descriptions", () => {
+      const card = profile()
+      card.identity.avatar.alt = " "
+      card.branding.logo.alt = ""
+      expect(findings(card, "alt-text")).toEqual([
+        expect.objectContaining({ id: "alt-text:avatar", section: "profile" }),
+        expect.objectContaining({ id: "alt-text:logo", section: "profile" }),
+      ])
+    })
+
+    it("points at the cover in the photo hero layout", () => {
+      const card = profile({ template: "photo-hero" })
+      card.identity.avatar.alt = ""
+      expect(findings(card, "alt-text")).toEqual([expect.objectContaining({ id: "alt-text:avatar", section: "cover" })])
+    })
+
+    it("flags image and gallery blocks", () => {
+      const card = profile({
+        blocks: [
+          { id: "b1", type: "image", image: { src: "/a.jpg", alt: "" } },
+          { id: "b2", type: "gallery", items: [{ image: { src: "/b.jpg", alt: "Team" } }, { image: { src: "/c.jpg", alt: "" } }] },
+        ],
+      })
+      expect(ids(card, "alt-text")).toEqual(["alt-text:block:b1", "alt-text:block:b2:1"])
+    })
+
+    it("skips hidden blocks", () => {
+      const card = profile({ blocks: [{ id: "b1", type: "image", image: { src: "/a.jpg", alt: "" }, hidden: true }] })
+      expect(ids(card, "alt-text")).toEqual([])
+    })
+  })
+
+  describe("link text", () => {
+    it("warns about vague contact labels and skips hidden contacts", () => {
+      const card = profile({
+        contacts: [
+          { kind: "website", value: "https://example.com", label: "Click here" },
+          { kind: "website", value: "https://example.org", label: "More", hidden: true },
+        ],
+      })
+      expect(findings(card, "link-text")).toEqual([
+        expect.objectContaining({ id: "link-text:contact:0", severity: "warning", message: expect.stringContaining('"Click here"') }),
+      ])
+    })
+
+    it("falls back to the channel's label when a contact has none", () => {
+      const card = profile({ contacts: [{ kind: "email", value: "jane@example.com", label: "" }] })
+      expect(ids(card, "link-text")).toEqual([])
+    })
+
+    it("warns when one label leads to different places", () => {
+      const card = profile({
+        contacts: [
+          { kind: "email", value: "jane@example.com", label: "Email" },
+          { kind: "email", value: "sales@example.com", label: "email" },
+        ],
+      })
+      expect(ids(card, "link-text")).toEqual(["link-text:duplicate:email"])
+    })
+
+    it("warns about vague list links and banners without a destination", () => {
+      const card = profile({
+        blocks: [{ id: "b1", type: "links", links: [{ label: "Read more", href: "https://example.com" }] }],
+        banners: [{ id: "n1", text: "Here", href: "" }],
+      })
+      expect(ids(card, "link-text")).toEqual(["link-text:block:b1:0", "link-text:banner:n1", "link-text:banner-href:n1"])
+    })
+  })
+})
@@ -0,0 +1,267 @@
+import { resolveBanners, type BannerVariant } from "@/lib/banners"
+import { resolveSections, type CardProfile, type CardSectionId, type CardTemplateId } from "@/lib/card-profile"
+import { cardColors } from "@/lib/card-theme"
+import { blendHex, contrastRatio } from "@/lib/color"
+import { getContactChannel, resolveContactAction } from "@/lib/contact-methods"
+import { defaultCover } from "@/lib/cover"
+
+export type AuditRule = "contrast" | "alt-text" | "link-text" | "touch-target"
+
+export interface AuditFinding {
+  /** Stable across runs, for React keys. */
+  id: string
+  rule: AuditRule
+  severity: "error" | "warning"
+  message: string
+  /** The card section to highlight in the preview. */
+  section?: CardSectionId
+}
+
+/** WCAG AA minimums: body text, and large text or icons. */
+const TEXT_CONTRAST = 4.5
+const LARGE_CONTRAST = 3
+
+/** Layouts that draw the profile on a surface card over the gradient cover. */
+const COVER_TEMPLATES: CardTemplateId[] = ["classic", "left-aligned", "horizontal"]
+
+/** Link text that says nothing about where the link goes. */
+const VAGUE_LINK_TEXT = new Set(["click", "click here", "here", "link", "more", "read more", "learn more", "this", "go"])
+
+const WHITE = "#ffffff"
+
+function ratio(value: number) {
+  return `${value.toFixed(1)}:1`
+}
+
+/**
+ * Colors a cover banner's text can land on: each cover color under the tint
+ * and the banner's own wash (20% white, or 60% black for `dark`). Photos and
+ * video can contain anything, so they are checked as if pure white, which
+ * only the tint or a dark banner can rescue.
+ */
+function bannerBackdrops(profile: CardProfile, gradient: string[], variant: BannerVariant) {
+  const { media, overlay } = profile.cover ?? defaultCover
+  const colors =
+    media.kind === "theme"
+      ? gradient
+      : media.kind === "gradient"
+        ? media.stops.map((stop) => stop.color)
+        : media.kind === "pattern"
+          ? [media.background, media.color]
+          : [WHITE]
+  return colors
+    .filter((color) => /^#[0-9a-f]{6}$/i.test(color))
+    .map((color) => blendHex(color, overlay.color, overlay.opacity))
+    .map((color) => (variant === "dark" ? blendHex(color, "#000000", 0.6) : blendHex(color, WHITE, 0.2)))
+}
+
+function contrastFindings(profile: CardProfile, visible: Set<CardSectionId>): AuditFinding[] {
+  const template = profile.template ?? "classic"
+  const onSurface = COVER_TEMPLATES.includes(template)
+  const scheme = profile.theme?.colorScheme ?? "light"
+  const schemes = scheme === "system" ? (["light", "dark"] as const) : [scheme]
+  const findings: AuditFinding[] = []
+
+  for (const mode of schemes) {
+    const colors = cardColors(profile.theme, mode)
+    const suffix = scheme === "system" ? ` in ${mode} mode` : ""
+    const check = (
+      key: string,
+      section: CardSectionId,
+      what: string,
+      foreground: string,
+      backgrounds: string[],
+      minimum: number,
+    ) => {
+      if (!visible.has(section)) return
+      const worst = Math.min(...backgrounds.map((background) => contrastRatio(foreground, background)))
+      if (worst >= minimum) return
+      findings.push({
+        id: `contrast:${key}:${mode}`,
+        rule: "contrast",
+        severity: "error",
+        message: `${what}: ${ratio(worst)} contrast${suffix}, below the ${ratio(minimum)} minimum.`,
+        section,
+      })
+    }
+
+    // Profile and contact text sits on the surface gradient or, in the text-only layouts, the plain card.
+    const surfaces = [colors.surface, colors.surfaceEnd]
+    const profileBackground = onSurface ? surfaces : [colors.background]
+    const contactBackground = template === "minimal" ? [colors.background] : surfaces
+
+    check("save", "saveContact", "Save Contact text", colors.primaryForeground, [colors.primary], TEXT_CONTRAST)
+    check("title", "profile", "Job title", colors.primary, profileBackground, TEXT_CONTRAST)
+    check("location", "profile", "Location text", colors.mutedForeground, profileBackground, TEXT_CONTRAST)
+    check("location-icon", "profile", "Location icon", colors.accent, profileBackground, LARGE_CONTRAST)
+    check("contact-label", "contacts", "Contact labels", colors.foreground, contactBackground, TEXT_CONTRAST)
+    check("contact-subtitle", "contacts", "Contact descriptions", colors.mutedForeground, contactBackground, TEXT_CONTRAST)
+    check("footer", "footer", "Footer text", colors.mutedForeground, [colors.background], TEXT_CONTRAST)
+    resolveBanners(profile).forEach((banner, index) => {
+      const key = `banner:${banner.id ?? index}`
+      const what = `Banner "${banner.text}"`
+      const variant = banner.variant ?? (onSurface ? "glass" : "solid")
+      if (variant === "solid") {
+        check(key, "cover", what, colors.primaryForeground, [colors.primary], TEXT_CONTRAST)
+      } else if (onSurface) {
+        const gradient = [colors.gradient.from, colors.gradient.via, colors.gradient.to]
+        check(key, "cover", what, WHITE, bannerBackdrops(profile, gradient, variant), TEXT_CONTRAST)
+      } else if (template === "minimal" && variant === "glass") {
+        const strip = blendHex(colors.background, colors.accent, 0.15)
+        check(key, "cover", what, colors.foreground, [strip], TEXT_CONTRAST)
+      }
+    })
+  }
+  return findings
+}
+
+function altTextFindings(profile: CardProfile, visible: Set<CardSectionId>): AuditFinding[] {
+  const findings: AuditFinding[] = []
+  // Photo hero shows the avatar and logo in its cover instead of the profile section.
+  const section = profile.template === "photo-hero" && visible.has("cover") ? "cover" : "profile"
+  const images = [
+    { key: "avatar", label: "Profile photo", image: profile.identity.avatar },
+    { key: "logo", label: "Brand logo", image: profile.branding.logo },
+  ]
+  for (const { key, label, image } of images) {
+    if (!image.src || image.alt.trim()) continue
+    findings.push({
+      id: `alt-text:${key}`,
+      rule: "alt-text",
+      severity: "error",
+      message: `${label} has no description for screen readers.`,
+      section,
+    })
+  }
+  if (visible.has("blocks")) {
+    profile.blocks?.forEach((block, index) => {
+      if (block.hidden) return
+      if (block.type === "image" && block.image.src && !block.image.alt.trim()) {
+        findings.push({
+          id: `alt-text:block:${block.id}`,
+          rule: "alt-text",
+          severity: "error",
+          message: `Image block ${index + 1} has no description for screen readers.`,
+          section: "blocks",
+        })
+      }
+      if (block.type === "gallery") {
+        block.items.forEach((item, itemIndex) => {
+          if (!item.image.src || item.image.alt.trim()) return
+          findings.push({
+            id: `alt-text:block:${block.id}:${itemIndex}`,
+            rule: "alt-text",
+            severity: "error",
+            message: `Image ${itemIndex + 1} in gallery block ${index + 1} has no description for screen readers.`,
+            section: "blocks",
+          })
+        })
+      }
+    })
+  }
+  return findings
+}
+
+function linkTextFindings(profile: CardProfile, visible: Set<CardSectionId>): AuditFinding[] {
+  const findings: AuditFinding[] = []
+
+  if (visible.has("contacts")) {
+    const destinations = new Map<string, { text: string; hrefs: Set<string> }>()
+    profile.contacts.forEach((contact, index) => {
+      if (contact.hidden) return
+      const text = (contact.label || getContactChannel(contact.kind).label).trim()
+      const id = `link-text:contact:${index}`
+      if (!text) {
+        findings.push({
+          id,
+          rule: "link-text",
+          severity: "error",
+          message: `Contact ${index + 1} has an empty label.`,
+          section: "contacts",
+        })
+        return
+      }
+      if (VAGUE_LINK_TEXT.has(text.toLowerCase())) {
+        findings.push({
+          id,
+          rule: "link-text",
+          severity: "warning",
+          message: `"${text}" does not say where the link goes.`,
+          section: "contacts",
+        })
+      }
+      const key = text.toLowerCase()
+      const entry = destinations.get(key) ?? { text, hrefs: new Set<string>() }
+      destinations.set(key, entry)
+      entry.hrefs.add(resolveContactAction(contact).href)
+    })
+    for (const [key, { text, hrefs }] of destinations) {
+      if (hrefs.size < 2) continue
+      findings.push({
+        id: `link-text:duplicate:${key}`,
+        rule: "link-text",
+        severity: "warning",
+        message: `${hrefs.size} contact links read "${text}" but go to different places; give each its own label.`,
+        section: "contacts",
+      })
+    }
+  }
+
+  if (visible.has("blocks")) {
+    profile.blocks?.forEach((block) => {
+      if (block.hidden || block.type !== "links") return
+      block.links.forEach((link, index) => {
+        if (!VAGUE_LINK_TEXT.has(link.label.trim().toLowerCase())) return
+        findings.push({
+          id: `link-text:block:${block.id}:${index}`,
+          rule: "link-text",
+          severity: "warning",
+          message: `"${link.label.trim()}" does not say where the link goes.`,
+          section: "blocks",
+        })
+      })
+    })
+  }
+
+  if (visible.has("cover")) {
+    resolveBanners(profile).forEach((banner, index) => {
+      const key = banner.id ?? index
+      if (VAGUE_LINK_TEXT.has(banner.text.trim().toLowerCase())) {
+        findings.push({
+          id: `link-text:banner:${key}`,
+          rule: "link-text",
+          severity: "warning",
+          message: `Banner text "${banner.text.trim()}" does not say where the link goes.`,
+          section: "cover",
+        })
+      }
+      if (!banner.href.trim()) {
+        findings.push({
+          id: `link-text:banner-href:${key}`,
+          rule: "link-text",
+          severity: "warning",
+          message: `Banner "${banner.text.trim()}" is a link with no destination.`,
+          section: "cover",
+        })
+      }
+    })
+  }
+  return findings
+}
+
+/**
+ * Checks a profile for contrast, alt text and link text problems. Touch
+ * targets depend on the rendered layout, so the designer measures those itself.
+ */
+export function auditCard(profile: CardProfile): AuditFinding[] {
+  const visible = new Set(
+    resolveSections(profile.sections)
+      .filter((section) => !section.hidden)
+      .map((section) => section.id),
+  )
+  return [
+    ...contrastFindings(profile, visible),
+    ...altTextFindings(profile, visible),
+    ...linkTextFindings(profile, visible),
+  ]
+}
@@ -0,0 +1,85 @@
+import { CalendarClock, GalleryHorizontal, Image, Link2, Minus, Quote, Type, UserPlus, Youtube, type LucideIcon } from "lucide-react"
+import type { CardBlock, CardBlockType } from "@/lib/card-profile"
+import { localTimeZone } from "@/lib/time-zone"
+
+type BlockOf<T extends CardBlockType> = Extract<CardBlock, { type: T }>
+
+export interface CardBlockKind<T extends CardBlockType = CardBlockType> {
+  label: string
+  icon: LucideIcon
+  /** A new block of this type, ready for the designer to fill in. */
+  create: (id: string) => BlockOf<T>
+}
+
+/** Every content block type. Renderers live in `components/card/blocks`, editors in `components/designer/blocks`. */
+const cardBlockKinds: { [T in CardBlockType]: CardBlockKind<T> } = {
+  text: {
+    label: "Text",
+    icon: Type,
+    create: (id) => ({ id, type: "text", title: "About", body: "" }),
+  },
+  image: {
+    label: "Image",
+    icon: Image,
+    create: (id) => ({ id, type: "image", image: { src: "", alt: "" } }),
+  },
+  video: {
+    label: "Video",
+    icon: Youtube,
+    create: (id) => ({ id, type: "video", url: "", title: "" }),
+  },
+  links: {
+    label: "Links",
+    icon: Link2,
+    create: (id) => ({ id, type: "links", title: "", links: [{ label: "", href: "" }] }),
+  },
+  divider: {
+    label: "Divider",
+    icon: Minus,
+    create: (id) => ({ id, type: "divider", style: "line" }),
+  },
+  quote: {
+    label: "Quote",
+    icon: Quote,
+    create: (id) => ({ id, type: "quote", text: "" }),
+  },
+  gallery: {
+    label: "Gallery",
+    icon: GalleryHorizontal,
+    create: (id) => ({ id, type: "gallery", title: "Recent work", items: [{ image: { src: "", alt: "" } }] }),
+  },
+  "lead-form": {
+    label: "Lead form",
+    icon: UserPlus,
+    create: (id) => ({
+      id,
+      type: "lead-form",
+      title: "Share your details",
+      fields: { name: "required", email: "required", phone: "optional", company: "optional", note: "optional" },
+      consent: "I agree to be contacted about my enquiry.",
+    }),
+  },
+  booking: {
+    label: "Booking",
+    icon: CalendarClock,
+    create: (id) => ({
+      id,
+      type: "booking",
+      title: "Book a meeting",
+      // Blocks are created in the designer, so this is the owner's own zone.
+      timeZone: localTimeZone(),
+      availability: [1, 2, 3, 4, 5].map((day) => ({ day, start: "09:00", end: "17:00" })),
+      durations: [30],
+      bufferBefore: 0,
+      bufferAfter: 15,
+      noticeHours: 24,
+      horizonDays: 30,
+    }),
+  },
+}
+
+export const cardBlockTypes = Object.keys(cardBlockKinds) as CardBlockType[]
+
+export function getCardBlockKind<T extends CardBlockType>(type: T): CardBlockKind<T> {
+  return cardBlockKinds[type] as CardBlockKind<T>
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+import { bannerSchema, cardBlockSchema, hrefSchema } from "@/lib/card-profile"
+
+const UNSAFE_HREFS = ["javascript:alert(1)", " JavaScript:alert(1)", "data:text/html,<script>alert(1)</script>", "vbscript:x"]
+
+describe("hrefSchema", () => {
+  it.each(["https://example.com", "http://example.com", "mailto:a@example.com", "tel:+15550100", "/c/jane", "#contacts"])(
+    "accepts %s",
+    (href) => {
+      expect(hrefSchema.safeParse(href).success).toBe(true)
+    },
+  )
+
+  it.each(UNSAFE_HREFS)("refuses %s", (href) => {
+    expect(hrefSchema.safeParse(href).success).toBe(false)
+  })
+})
+
+describe("bannerSchema", () => {
+  it("allows banners without a link", () => {
+    expect(bannerSchema.safeParse({ text: "Hello", href: "" }).success).toBe(true)
+  })
+
+  it.each(UNSAFE_HREFS)("refuses links to %s", (href) => {
+    expect(bannerSchema.safeParse({ text: "Hello", href }).success).toBe(false)
+  })
+})
+
+describe("block links", () => {
+  const image = { id: "b1", type: "image", image: { src: "/photo.jpg", alt: "" } }
+  const links = (href: string) => ({ id: "b2", type: "links", links: [{ label: "Site", href }] })
+  const gallery = (href: string) => ({ id: "b3", type: "gallery", items: [{ image: { src: "/a.jpg", alt: "" }, href }] })
+
+  it("accepts safe and empty image links", () => {
+    expect(cardBlockSchema.safeParse({ ...image, href: "https://example.com" }).success).toBe(true)
+    expect(cardBlockSchema.safeParse({ ...image, href: "" }).success).toBe(true)
+  })
+
+  it.each(UNSAFE_HREFS)("refuses image, list and gallery links to %s", (href) => {
+    expect(cardBlockSchema.safeParse({ ...image, href }).success).toBe(false)
+    expect(cardBlockSchema.safeParse(links(href)).success).toBe(false)
+    expect(cardBlockSchema.safeParse(gallery(href)).success).toBe(false)
+  })
+
+  it("accepts gallery slides with and without a link", () => {
+    expect(cardBlockSchema.safeParse(gallery("https://example.com/case")).success).toBe(true)
+    expect(cardBlockSchema.safeParse(gallery("")).success).toBe(true)
+  })
+
+  it("lets any block be hidden", () => {
+    for (const block of [image, links("https://example.com"), gallery("")]) {
+      const result = cardBlockSchema.safeParse({ ...block, hidden: true })
+      expect(result.success && result.data.hidden).toBe(true)
+    }
+  })
+
+  it("still asks for a link in lists", () => {
+    const result = cardBlockSchema.safeParse(links(""))
+    expect(result.success ? undefined : result.error.issues[0].message).toBe("Link is required")
+  })
+})
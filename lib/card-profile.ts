@@ -0,0 +1,448 @@
+import { z } from "zod"
+import { bannerIconIds, bannerVariantIds } from "@/lib/banners"
+import { contactChannelKinds, getContactChannel } from "@/lib/contact-methods"
+import { coverPatternIds } from "@/lib/cover-patterns"
+import { fontFamilyIds } from "@/lib/font-catalog"
+import { isTimeZone } from "@/lib/time-zone"
+import { parseVideoEmbed } from "@/lib/video-embed"
+
+export const cardSlugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and dashes")
+
+/** Only web, mail and phone links or paths on this site; `javascript:`, `data:` and other schemes are refused. */
+export const SAFE_HREF = /^(https?:|mailto:|tel:|\/|#)/i
+
+/** Every link a card renders from its profile goes through this. */
+export const hrefSchema = z.string().regex(SAFE_HREF, "Use a web, email or phone link")
+
+/** Links that may be left empty. */
+const blankableHrefSchema = z.union([z.literal(""), hrefSchema])
+
+export const imageAssetSchema = z.object({
+  src: z.string().min(1, "Image source is required"),
+  alt: z.string(),
+})
+
+/** vCard TYPE hints such as `work`, `home` or `cell`. */
+export const contactTypesSchema = z.array(z.string().regex(/^[a-z0-9-]+$/i))
+
+export const postalAddressSchema = z.object({
+  types: contactTypesSchema.optional(),
+  street: z.string(),
+  locality: z.string(),
+  region: z.string(),
+  postalCode: z.string(),
+  country: z.string(),
+})
+
+export const contactMethodKindSchema = z.enum(contactChannelKinds)
+
+export const contactMethodSchema = z
+  .object({
+    kind: contactMethodKindSchema,
+    value: z.string().min(1, "Value is required"),
+    label: z.string().optional(),
+    subtitle: z.string().optional(),
+    types: contactTypesSchema.optional(),
+    /** Prefilled text for SMS and WhatsApp, or the body of an email. */
+    message: z.string().optional(),
+    /** Email subject line. */
+    subject: z.string().optional(),
+    hidden: z.boolean().optional(),
+  })
+  .superRefine((method, ctx) => {
+    if (!method.value) return
+    const error = getContactChannel(method.kind).validate(method.value)
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: error })
+  })
+
+export const identitySchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  givenName: z.string().optional(),
+  familyName: z.string().optional(),
+  title: z.string(),
+  organization: z.string(),
+  location: z.string(),
+  note: z.string().optional(),
+  avatar: imageAssetSchema,
+})
+
+export const brandingSchema = z.object({
+  name: z.string(),
+  logo: imageAssetSchema,
+})
+
+const dateTimeSchema = z.string().datetime({ offset: true })
+
+export const bannerSchema = z
+  .object({
+    /** Remembers visitors' dismissals; older single banners have none. */
+    id: z.string().optional(),
+    text: z.string().min(1, "Banner text is required"),
+    href: blankableHrefSchema,
+    icon: z.enum(bannerIconIds).optional(),
+    variant: z.enum(bannerVariantIds).optional(),
+    /** Hidden before this time; shown right away when unset. */
+    startsAt: dateTimeSchema.optional(),
+    /** Hidden from this time on; shown indefinitely when unset. */
+    endsAt: dateTimeSchema.optional(),
+    /** Lets visitors close the banner; the choice is remembered in their browser. */
+    dismissible: z.boolean().optional(),
+  })
+  .refine((banner) => !banner.startsAt || !banner.endsAt || Date.parse(banner.endsAt) > Date.parse(banner.startsAt), {
+    message: "End must be after start",
+    path: ["endsAt"],
+  })
+
+export const footerSchema = z.object({
+  text: z.string(),
+})
+
+export const cardSectionIdSchema = z.enum(["cover", "profile", "saveContact", "contacts", "blocks", "footer"])
+
+export const cardSectionSchema = z.object({
+  id: cardSectionIdSchema,
+  hidden: z.boolean().optional(),
+})
+
+export const cardTemplateIdSchema = z.enum(["classic", "left-aligned", "photo-hero", "minimal", "horizontal"])
+
+const hexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, "Use a hex color such as #7c3aed")
+
+export const cardThemeSchema = z.object({
+  /** Buttons and headings; replaces `--primary` inside the card. */
+  primary: hexColorSchema,
+  /** Icons and highlights. */
+  accent: hexColorSchema,
+  /** Background of the profile and contact cards. */
+  surface: hexColorSchema,
+  /** Cover gradient stops. */
+  gradient: z.object({
+    from: hexColorSchema,
+    via: hexColorSchema,
+    to: hexColorSchema,
+  }),
+  /** Corner radius in rem; replaces `--radius` inside the card. */
+  radius: z.number().min(0).max(2),
+  /** Light or dark surfaces, or follow the visitor's system setting. Defaults to light. */
+  colorScheme: z.enum(["light", "dark", "system"]).optional(),
+})
+
+const percentSchema = z.number().min(0).max(100)
+
+export const coverMediaSchema = z.discriminatedUnion("kind", [
+  /** The theme's cover gradient with soft decorative blobs. */
+  z.object({ kind: z.literal("theme") }),
+  z.object({
+    kind: z.literal("image"),
+    image: imageAssetSchema,
+    /** The point kept in view when the image is cropped, in percent from the top left. */
+    focalPoint: z.object({ x: percentSchema, y: percentSchema }),
+  }),
+  z.object({
+    kind: z.literal("video"),
+    src: z.string().min(1, "Video source is required"),
+    /** Shown while the video loads and to visitors who prefer reduced motion. */
+    poster: z.string(),
+  }),
+  z.object({
+    kind: z.literal("pattern"),
+    pattern: z.enum(coverPatternIds),
+    color: hexColorSchema,
+    background: hexColorSchema,
+  }),
+  z.object({
+    kind: z.literal("gradient"),
+    /** CSS gradient angle in degrees; 0 points up. */
+    angle: z.number().int().min(0).max(360),
+    stops: z
+      .array(z.object({ color: hexColorSchema, position: percentSchema }))
+      .min(2, "Add at least two colors")
+      .max(6),
+  }),
+])
+
+export const coverSchema = z.object({
+  media: coverMediaSchema,
+  /** A tint over the media that keeps the banner readable. */
+  overlay: z.object({
+    color: hexColorSchema,
+    opacity: z.number().min(0).max(0.9),
+  }),
+})
+
+const blockIdSchema = z.string().min(1)
+
+/** Keeps a block in the designer but leaves it off the card. */
+const blockHiddenSchema = z.boolean().optional()
+
+export const textBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("text"),
+  hidden: blockHiddenSchema,
+  title: z.string().optional(),
+  /** Paragraphs with **bold**, *italic*, [links](https://…) and "- " lists; see `lib/rich-text.ts`. */
+  body: z.string().min(1, "Text is required"),
+})
+
+export const imageBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("image"),
+  hidden: blockHiddenSchema,
+  image: imageAssetSchema,
+  caption: z.string().optional(),
+  /** Makes the image a link. */
+  href: blankableHrefSchema.optional(),
+})
+
+export const videoBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("video"),
+  hidden: blockHiddenSchema,
+  url: z.string().refine((url) => Boolean(parseVideoEmbed(url)), "Use a YouTube or Vimeo link"),
+  /** Names the embedded player for screen readers. */
+  title: z.string().min(1, "Title is required"),
+})
+
+export const linkListBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("links"),
+  hidden: blockHiddenSchema,
+  title: z.string().optional(),
+  links: z
+    .array(
+      z.object({
+        label: z.string().min(1, "Label is required"),
+        href: z.string().min(1, "Link is required").pipe(hrefSchema),
+      }),
+    )
+    .min(1, "Add at least one link"),
+})
+
+export const dividerBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("divider"),
+  hidden: blockHiddenSchema,
+  style: z.enum(["line", "dots", "space"]),
+})
+
+export const quoteBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("quote"),
+  hidden: blockHiddenSchema,
+  text: z.string().min(1, "Quote is required"),
+  attribution: z.string().optional(),
+})
+
+export const galleryBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("gallery"),
+  hidden: blockHiddenSchema,
+  title: z.string().optional(),
+  items: z
+    .array(
+      z.object({
+        image: imageAssetSchema,
+        /** Names a case study; links the slide when `href` is set. */
+        title: z.string().optional(),
+        caption: z.string().optional(),
+        href: blankableHrefSchema.optional(),
+      }),
+    )
+    .min(1, "Add at least one image"),
+})
+
+/** Whether a lead form asks for a field, and whether visitors must fill it in. */
+export const leadFieldModeSchema = z.enum(["hidden", "optional", "required"])
+
+export const leadFormBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("lead-form"),
+  hidden: blockHiddenSchema,
+  title: z.string().optional(),
+  intro: z.string().optional(),
+  fields: z
+    .object({
+      name: leadFieldModeSchema,
+      email: leadFieldModeSchema,
+      phone: leadFieldModeSchema,
+      company: leadFieldModeSchema,
+      note: leadFieldModeSchema,
+    })
+    .refine((fields) => fields.email !== "hidden" || fields.phone !== "hidden", {
+      message: "Ask for an email or a phone number",
+      path: ["email"],
+    }),
+  /** Label of a checkbox visitors must tick before sending; no checkbox when empty. */
+  consent: z.string().optional(),
+  submitLabel: z.string().optional(),
+})
+
+const clockTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a 24-hour time such as 09:30")
+
+/** Open hours on one weekday, in the booking block's time zone. */
+export const availabilityWindowSchema = z
+  .object({
+    /** 0 for Sunday through 6 for Saturday. */
+    day: z.number().int().min(0).max(6),
+    start: clockTimeSchema,
+    end: clockTimeSchema,
+  })
+  .refine((window) => window.end > window.start, { message: "End must be after start", path: ["end"] })
+
+export const bookingBlockSchema = z.object({
+  id: blockIdSchema,
+  type: z.literal("booking"),
+  hidden: blockHiddenSchema,
+  title: z.string().optional(),
+  intro: z.string().optional(),
+  /** IANA zone the availability is written in, such as `Europe/Berlin`. */
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+  availability: z.array(availabilityWindowSchema).min(1, "Add at least one opening"),
+  /** Meeting lengths visitors choose from, in minutes. */
+  durations: z.array(z.number().int().min(5).max(480)).min(1, "Offer at least one meeting length"),
+  /** Minutes kept free before and after every meeting. */
+  bufferBefore: z.number().int().min(0).max(240),
+  bufferAfter: z.number().int().min(0).max(240),
+  /** Hours of warning the owner needs before a meeting. */
+  noticeHours: z.number().int().min(0).max(720),
+  /** How many days ahead visitors can book. */
+  horizonDays: z.number().int().min(1).max(365),
+  /** Where the meeting happens: an address, a phone number or a video link. */
+  location: z.string().optional(),
+})
+
+export const cardBlockSchema = z.discriminatedUnion("type", [
+  textBlockSchema,
+  imageBlockSchema,
+  videoBlockSchema,
+  linkListBlockSchema,
+  dividerBlockSchema,
+  quoteBlockSchema,
+  galleryBlockSchema,
+  leadFormBlockSchema,
+  bookingBlockSchema,
+])
+
+export const ctaAnimationSchema = z.object({
+  preset: z.enum(["heartbeat", "shimmer", "bounce", "glow", "none"]),
+  /** Seconds per cycle. */
+  duration: z.number().min(0.2).max(10),
+  /** Seconds before the first cycle. */
+  delay: z.number().min(0).max(30),
+  repeat: z.union([z.number().int().min(1).max(20), z.literal("infinite")]),
+})
+
+const fontWeightSchema = z.number().int().min(100).max(1000).multipleOf(100)
+
+export const cardTypographySchema = z.object({
+  heading: z.enum(fontFamilyIds),
+  body: z.enum(fontFamilyIds),
+  headingWeight: fontWeightSchema,
+  bodyWeight: fontWeightSchema,
+  /** Text size step for the whole card. */
+  scale: z.enum(["sm", "md", "lg"]),
+})
+
+export const cardProfileSchema = z.object({
+  id: z.string().uuid().optional(),
+  identity: identitySchema,
+  addresses: z.array(postalAddressSchema),
+  contacts: z.array(contactMethodSchema),
+  branding: brandingSchema,
+  /** Superseded by `banners`; read both through `resolveBanners`. */
+  banner: bannerSchema.optional(),
+  /** Announcement queue. Live banners take turns in this order. */
+  banners: z.array(bannerSchema).optional(),
+  footer: footerSchema,
+  /** The layout the sections render in; defaults to `classic`. */
+  template: cardTemplateIdSchema.optional(),
+  /** Display order of the card's sections; missing sections render at the end. */
+  sections: z.array(cardSectionSchema).optional(),
+  theme: cardThemeSchema.optional(),
+  typography: cardTypographySchema.optional(),
+  /** What fills the cover; defaults to the theme gradient. */
+  cover: coverSchema.optional(),
+  /** Free-form content shown in the `blocks` section, in order. */
+  blocks: z.array(cardBlockSchema).optional(),
+  /** Attention animation on the Save Contact button. */
+  ctaAnimation: ctaAnimationSchema.optional(),
+})
+
+export type CardSlug = z.infer<typeof cardSlugSchema>
+export type ImageAsset = z.infer<typeof imageAssetSchema>
+export type PostalAddress = z.infer<typeof postalAddressSchema>
+export type ContactMethodKind = z.infer<typeof contactMethodKindSchema>
+export type ContactMethod = z.infer<typeof contactMethodSchema>
+export type CardIdentity = z.infer<typeof identitySchema>
+export type CardBranding = z.infer<typeof brandingSchema>
+export type CardBanner = z.infer<typeof bannerSchema>
+export type CardFooter = z.infer<typeof footerSchema>
+export type CardSectionId = z.infer<typeof cardSectionIdSchema>
+export type CardSection = z.infer<typeof cardSectionSchema>
+export type CardTemplateId = z.infer<typeof cardTemplateIdSchema>
+export type CardTheme = z.infer<typeof cardThemeSchema>
+export type CardColorScheme = NonNullable<CardTheme["colorScheme"]>
+export type CardTypography = z.infer<typeof cardTypographySchema>
+export type CoverMedia = z.infer<typeof coverMediaSchema>
+export type CoverMediaKind = CoverMedia["kind"]
+export type Cover = z.infer<typeof coverSchema>
+export type CardBlock = z.infer<typeof cardBlockSchema>
+export type CardBlockType = CardBlock["type"]
+export type LeadFieldMode = z.infer<typeof leadFieldModeSchema>
+export type AvailabilityWindow = z.infer<typeof availabilityWindowSchema>
+export type CtaAnimation = z.infer<typeof ctaAnimationSchema>
+export type CtaAnimationPreset = CtaAnimation["preset"]
+export type CardProfile = z.infer<typeof cardProfileSchema>
+
+/** A minimal valid-shaped profile for new cards; callers fill in the name. */
+export function createCardProfile(name = ""): CardProfile {
+  return {
+    identity: {
+      name,
+      title: "",
+      organization: "",
+      location: "",
+      avatar: { src: "/placeholder-user.jpg", alt: name },
+    },
+    addresses: [],
+    contacts: [],
+    branding: {
+      name: "Delightloop",
+      logo: { src: "/delightloop-logo.png", alt: "Delightloop" },
+    },
+    footer: { text: "Powered by Delightloop" },
+  }
+}
+
+export function formatAddress(address: PostalAddress) {
+  const regionLine = [address.region, address.postalCode].filter(Boolean).join(" ")
+  return [address.street, address.locality, regionLine, address.country].filter(Boolean).join(", ")
+}
+
+/**
+ * Returns every section exactly once, in the stored order. Sections the
+ * profile omits, such as ones added after it was saved, slot in after the
+ * section they follow by default.
+ */
+export function resolveSections(sections: CardSection[] = []): CardSection[] {
+  const seen = new Set<CardSectionId>()
+  const ordered: CardSection[] = []
+  for (const section of sections) {
+    if (seen.has(section.id)) continue
+    seen.add(section.id)
+    ordered.push(section)
+  }
+  const defaults = cardSectionIdSchema.options
+  defaults.forEach((id, position) => {
+    if (seen.has(id)) return
+    const after = position === 0 ? -1 : ordered.findIndex((section) => section.id === defaults[position - 1])
+    ordered.splice(after + 1, 0, { id })
+  })
+  return ordered
+}
+
+export function parseCardProfile(input: unknown): CardProfile {
+  return cardProfileSchema.parse(input)
+}
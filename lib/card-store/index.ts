@@ -0,0 +1,19 @@
+import path from "path"
+import { JsonCardStore } from "@/lib/card-store/json-store"
+import type { CardStore } from "@/lib/card-store/types"
+
+export type { CardStore, CardSummary } from "@/lib/card-store/types"
+
+let store: CardStore | undefined
+
+/**
+ * Returns the configured card store. `CARD_STORE_DIR` points the JSON adapter
+ * at a different directory; it defaults to `data/cards` in the project root.
+ */
+export function getCardStore(): CardStore {
+  if (!store) {
+    const dir = process.env.CARD_STORE_DIR ?? path.join(process.cwd(), "data", "cards")
+    store = new JsonCardStore(dir)
+  }
+  return store
+}
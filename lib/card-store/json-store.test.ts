@@ -0,0 +1,81 @@
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { bookingSlots, type Booking, type BookingBlock } from "@/lib/booking"
+import { createCardProfile } from "@/lib/card-profile"
+import { JsonCardStore } from "@/lib/card-store/json-store"
+
+let dir: string
+let store: JsonCardStore
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "card-store-"))
+  store = new JsonCardStore(dir)
+})
+
+afterEach(async () => {
+  vi.restoreAllMocks()
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe("JsonCardStore", () => {
+  it("lists the cards that parse and skips broken ones", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    await store.save("jane", createCardProfile("Jane Doe"))
+    await fs.writeFile(path.join(dir, "half.json"), '{"identity": {"na', "utf8")
+    await fs.writeFile(path.join(dir, "stale.json"), '{"identity": {}}', "utf8")
+
+    expect((await store.list()).map((card) => card.slug)).toEqual(["jane"])
+    expect(warn).toHaveBeenCalledTimes(2)
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      'Skipping card "half":',
+      'Skipping card "stale":',
+    ])
+  })
+
+  it("queues saves to the same card so the last one wins", async () => {
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) => store.save("jane", createCardProfile(`Jane ${index}`))),
+    )
+    expect((await store.get("jane"))?.identity.name).toBe("Jane 9")
+    expect(await fs.readdir(dir)).toEqual(["jane.json"])
+  })
+
+  it("accepts only one of two bookings racing for the same time", async () => {
+    const block: BookingBlock = {
+      id: "bk1",
+      type: "booking",
+      timeZone: "UTC",
+      availability: [{ day: 1, start: "09:00", end: "11:00" }],
+      durations: [30],
+      bufferBefore: 0,
+      bufferAfter: 10,
+      noticeHours: 0,
+      horizonDays: 14,
+    }
+    const now = Date.parse("2025-03-01T00:00:00Z")
+    const booking = (id: string, start: string): Booking => ({
+      id,
+      blockId: block.id,
+      start,
+      end: new Date(Date.parse(start) + 30 * 60_000).toISOString(),
+      createdAt: new Date(now).toISOString(),
+      name: id,
+      email: `${id}@example.com`,
+    })
+    // The same check the bookings route runs against what is already stored.
+    const book = (candidate: Booking) =>
+      store.addBooking("jane", candidate, (existing) =>
+        bookingSlots(block, "2025-03-03", 30, existing, now).some((slot) => slot.start === candidate.start),
+      )
+
+    const results = await Promise.all([
+      book(booking("first", "2025-03-03T09:00:00.000Z")),
+      book(booking("second", "2025-03-03T09:15:00.000Z")),
+      book(booking("third", "2025-03-03T09:45:00.000Z")),
+    ])
+    expect(results).toEqual([true, false, true])
+    expect((await store.listBookings("jane")).map((stored) => stored.id)).toEqual(["first", "third"])
+  })
+})
@@ -0,0 +1,176 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { cardProfileSchema, cardSlugSchema, type CardProfile } from "@/lib/card-profile"
+import { z } from "zod"
+import { bookingSchema, type Booking } from "@/lib/booking"
+import type { CardStore, CardSummary } from "@/lib/card-store/types"
+import { leadSchema, type Lead } from "@/lib/leads"
+
+/** What visitors send a card, each kept in `<dir>/<collection>/<slug>.json`. */
+const collections = {
+  leads: { label: "Leads", schema: leadSchema },
+  bookings: { label: "Bookings", schema: bookingSchema },
+}
+
+type Collection = keyof typeof collections
+
+/**
+ * Stores each card as `<dir>/<slug>.json`, its lead form responses as
+ * `<dir>/leads/<slug>.json` and its bookings as `<dir>/bookings/<slug>.json`.
+ * Suitable for local development and single-instance deployments with a
+ * writable disk.
+ */
+export class JsonCardStore implements CardStore {
+  /** The last pending write per file, so read-modify-write updates queue up instead of racing. */
+  private readonly writes = new Map<string, Promise<unknown>>()
+
+  constructor(private readonly dir: string) {}
+
+  private fileFor(slug: string) {
+    return path.join(this.dir, `${cardSlugSchema.parse(slug)}.json`)
+  }
+
+  private collectionFileFor(collection: Collection, slug: string) {
+    return path.join(this.dir, collection, `${cardSlugSchema.parse(slug)}.json`)
+  }
+
+  private exclusive<T>(file: string, task: () => Promise<T>): Promise<T> {
+    // Run after the previous write whether or not it failed.
+    const run = (this.writes.get(file) ?? Promise.resolve()).then(task, task)
+    this.writes.set(file, run.catch(() => undefined))
+    return run
+  }
+
+  async list(): Promise<CardSummary[]> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.dir)
+    } catch (error) {
+      if (isNotFound(error)) return []
+      throw error
+    }
+
+    const slugs = entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => entry.slice(0, -".json".length))
+      .filter((slug) => cardSlugSchema.safeParse(slug).success)
+      .sort()
+
+    const summaries: CardSummary[] = []
+    for (const slug of slugs) {
+      let profile: CardProfile | null
+      try {
+        profile = await this.get(slug)
+      } catch (error) {
+        // One broken file should not hide every other card from the index.
+        console.warn(`Skipping card "${slug}":`, error instanceof Error ? error.message : error)
+        continue
+      }
+      if (!profile) continue
+      summaries.push({
+        slug,
+        name: profile.identity.name,
+        title: profile.identity.title,
+        organization: profile.identity.organization,
+      })
+    }
+    return summaries
+  }
+
+  async get(slug: string): Promise<CardProfile | null> {
+    if (!cardSlugSchema.safeParse(slug).success) return null
+
+    let raw: string
+    try {
+      raw = await fs.readFile(this.fileFor(slug), "utf8")
+    } catch (error) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+
+    let json: unknown
+    try {
+      json = JSON.parse(raw)
+    } catch {
+      throw new Error(`Card "${slug}" is not valid JSON`)
+    }
+    const result = cardProfileSchema.safeParse(json)
+    if (!result.success) {
+      throw new Error(`Card "${slug}" is invalid: ${result.error.message}`)
+    }
+    return result.data
+  }
+
+  save(slug: string, profile: CardProfile): Promise<void> {
+    const file = this.fileFor(slug)
+    const data = cardProfileSchema.parse(profile)
+    return this.exclusive(file, () => writeJson(file, data))
+  }
+
+  private async readCollection<C extends Collection>(collection: C, slug: string) {
+    const { label, schema } = collections[collection]
+    let raw: string
+    try {
+      raw = await fs.readFile(this.collectionFileFor(collection, slug), "utf8")
+    } catch (error) {
+      if (isNotFound(error)) return []
+      throw error
+    }
+
+    const result = z.array(schema).safeParse(JSON.parse(raw))
+    if (!result.success) {
+      throw new Error(`${label} for "${slug}" are invalid: ${result.error.message}`)
+    }
+    return result.data as z.infer<(typeof collections)[C]["schema"]>[]
+  }
+
+  private async writeCollection<C extends Collection>(
+    collection: C,
+    slug: string,
+    records: z.infer<(typeof collections)[C]["schema"]>[],
+  ) {
+    const file = this.collectionFileFor(collection, slug)
+    const data = z.array(collections[collection].schema).parse(records)
+    await writeJson(file, data)
+  }
+
+  listLeads(slug: string): Promise<Lead[]> {
+    return this.readCollection("leads", slug)
+  }
+
+  addLead(slug: string, lead: Lead): Promise<void> {
+    return this.exclusive(this.collectionFileFor("leads", slug), async () => {
+      await this.writeCollection("leads", slug, [...(await this.listLeads(slug)), lead])
+    })
+  }
+
+  listBookings(slug: string): Promise<Booking[]> {
+    return this.readCollection("bookings", slug)
+  }
+
+  addBooking(slug: string, booking: Booking, accept: (existing: Booking[]) => boolean): Promise<boolean> {
+    return this.exclusive(this.collectionFileFor("bookings", slug), async () => {
+      const bookings = await this.listBookings(slug)
+      if (!accept(bookings)) return false
+      await this.writeCollection("bookings", slug, [...bookings, booking])
+      return true
+    })
+  }
+}
+
+/** Writes through a temporary file and a rename, so readers never see a half-written file. */
+async function writeJson(file: string, data: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const temp = `${file}.${process.pid}.${crypto.randomUUID()}.tmp`
+  try {
+    await fs.writeFile(temp, `${JSON.stringify(data, null, 2)}\n`, "utf8")
+    await fs.rename(temp, file)
+  } catch (error) {
+    await fs.rm(temp, { force: true })
+    throw error
+  }
+}
+
+function isNotFound(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT"
+}
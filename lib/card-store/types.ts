@@ -0,0 +1,32 @@
+import type { Booking } from "@/lib/booking"
+import type { CardProfile } from "@/lib/card-profile"
+import type { Lead } from "@/lib/leads"
+
+export interface CardSummary {
+  slug: string
+  name: string
+  title: string
+  organization: string
+}
+
+/**
+ * Persistence boundary for card profiles and what visitors send them. Adapters
+ * own serialization and must validate what they read back with
+ * `cardProfileSchema`, `leadSchema` and `bookingSchema`.
+ */
+export interface CardStore {
+  list(): Promise<CardSummary[]>
+  get(slug: string): Promise<CardProfile | null>
+  save(slug: string, profile: CardProfile): Promise<void>
+  /** Responses to the card's lead forms, oldest first. */
+  listLeads(slug: string): Promise<Lead[]>
+  addLead(slug: string, lead: Lead): Promise<void>
+  /** Meetings booked through any of the card's booking blocks, oldest first. */
+  listBookings(slug: string): Promise<Booking[]>
+  /**
+   * Stores `booking` unless `accept`, shown the bookings already stored,
+   * rejects it. No other booking lands in between, so a free slot cannot be
+   * taken twice. Resolves to whether the booking was stored.
+   */
+  addBooking(slug: string, booking: Booking, accept: (existing: Booking[]) => boolean): Promise<boolean>
+}
@@ -0,0 +1,127 @@
+import type { CSSProperties } from "react"
+import type { CardColorScheme, CardTheme } from "@/lib/card-profile"
+import { hexToHsl, hslToHex, relativeLuminance, shiftHsl, type Hsl } from "@/lib/color"
+
+/** The original Delightloop violet, used by cards without a theme. */
+export const defaultCardTheme: CardTheme = {
+  primary: "#7c3aed",
+  accent: "#8b5cf6",
+  surface: "#f5f3ff",
+  gradient: { from: "#a78bfa", via: "#c084fc", to: "#6366f1" },
+  radius: 0.75,
+  colorScheme: "light",
+}
+
+/** Formats a color the way `globals.css` declares tokens: bare `h s% l%` channels. */
+function channels({ h, s, l }: Hsl) {
+  const round = (value: number) => Math.round(value * 10) / 10
+  return `${round(h)} ${round(s)}% ${round(l)}%`
+}
+
+/** Light or dark text, whichever contrasts more with `hex`. */
+function foregroundFor(hex: string): Hsl {
+  const light = { h: 210, s: 40, l: 98 }
+  const dark = { h: 222.2, s: 84, l: 4.9 }
+  // White and near-black contrast equally at a luminance of roughly 0.18.
+  return relativeLuminance(hex) > 0.18 ? dark : light
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+/** The designer previews half-typed colors; fall back until they are complete. */
+function validColor(value: string, fallback: string) {
+  return HEX_COLOR.test(value) ? value : fallback
+}
+
+/**
+ * Profile and contact card backgrounds. Dark surfaces keep the theme's hue but
+ * drop to a deep, muted shade so light text stays readable.
+ */
+function surfaceTokens(surface: Hsl, scheme: "light" | "dark") {
+  const base = scheme === "light" ? surface : { h: surface.h, s: Math.min(surface.s, 40), l: 12 }
+  const end = shiftHsl(base, { h: 20 })
+  const hover = scheme === "light" ? -3 : 4
+  return {
+    "card-surface": base,
+    "card-surface-end": end,
+    "card-surface-hover": shiftHsl(base, { l: hover }),
+    "card-surface-hover-end": shiftHsl(end, { l: hover }),
+  }
+}
+
+/**
+ * The CSS variables for a card's theme. The card root sets these, overriding
+ * the app-wide `--primary`, `--ring` and `--radius` from `globals.css` and
+ * filling the card-only tokens, so everything inside picks up the theme.
+ *
+ * Surfaces are emitted as `-light` and `-dark` pairs that `.card-theme` in
+ * `globals.css` picks between; a card with a fixed scheme (or `resolved`, when
+ * the caller already knows the system setting) gets the same value in both.
+ */
+export function cardThemeVariables(theme: CardTheme = defaultCardTheme, resolved?: "light" | "dark"): CSSProperties {
+  const primaryHex = validColor(theme.primary, defaultCardTheme.primary)
+  const primary = hexToHsl(primaryHex)
+  const surface = hexToHsl(validColor(theme.surface, defaultCardTheme.surface))
+  const { gradient } = defaultCardTheme
+
+  const scheme = resolveColorScheme(theme.colorScheme, resolved)
+  const light = surfaceTokens(surface, scheme ?? "light")
+  const dark = surfaceTokens(surface, scheme ?? "dark")
+  const surfaces = Object.fromEntries(
+    Object.keys(light).flatMap((name) => {
+      const key = name as keyof typeof light
+      return [
+        [`--${name}-light`, channels(light[key])],
+        [`--${name}-dark`, channels(dark[key])],
+      ]
+    }),
+  )
+
+  return {
+    "--primary": channels(primary),
+    "--primary-foreground": channels(foregroundFor(primaryHex)),
+    "--ring": channels(primary),
+    "--radius": `${theme.radius}rem`,
+    "--card-accent": channels(hexToHsl(validColor(theme.accent, defaultCardTheme.accent))),
+    ...surfaces,
+    "--cover-from": channels(hexToHsl(validColor(theme.gradient.from, gradient.from))),
+    "--cover-via": channels(hexToHsl(validColor(theme.gradient.via, gradient.via))),
+    "--cover-to": channels(hexToHsl(validColor(theme.gradient.to, gradient.to))),
+  } as CSSProperties
+}
+
+/** The fixed scheme a card renders in, or undefined when it follows the page. */
+export function resolveColorScheme(colorScheme: CardColorScheme = "light", resolved?: "light" | "dark") {
+  return colorScheme === "system" ? resolved : colorScheme
+}
+
+/** App-wide tokens from `globals.css` that cards do not override, per scheme. */
+const BASE_TOKENS = {
+  light: { card: { h: 0, s: 0, l: 100 }, foreground: { h: 222.2, s: 84, l: 4.9 }, muted: { h: 215.4, s: 16.3, l: 46.9 } },
+  dark: { card: { h: 222.2, s: 84, l: 4.9 }, foreground: { h: 210, s: 40, l: 98 }, muted: { h: 215, s: 20.2, l: 65.1 } },
+}
+
+/**
+ * The colors a card renders with in `scheme`, as hex, for checks that need
+ * actual values rather than CSS variables.
+ */
+export function cardColors(theme: CardTheme = defaultCardTheme, scheme: "light" | "dark") {
+  const primary = validColor(theme.primary, defaultCardTheme.primary)
+  const surfaces = surfaceTokens(hexToHsl(validColor(theme.surface, defaultCardTheme.surface)), scheme)
+  const base = BASE_TOKENS[scheme]
+  return {
+    primary,
+    primaryForeground: hslToHex(foregroundFor(primary)),
+    accent: validColor(theme.accent, defaultCardTheme.accent),
+    surface: hslToHex(surfaces["card-surface"]),
+    surfaceEnd: hslToHex(surfaces["card-surface-end"]),
+    background: hslToHex(base.card),
+    foreground: hslToHex(base.foreground),
+    mutedForeground: hslToHex(base.muted),
+    gradient: {
+      from: validColor(theme.gradient.from, defaultCardTheme.gradient.from),
+      via: validColor(theme.gradient.via, defaultCardTheme.gradient.via),
+      to: validColor(theme.gradient.to, defaultCardTheme.gradient.to),
+    },
+  }
+}
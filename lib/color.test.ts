@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { blendHex, contrastRatio, hexToHsl, hslToHex, relativeLuminance, shiftHsl } from "@/lib/color"
+
+describe("contrastRatio", () => {
+  it.each([
+    ["#000000", "#ffffff", 21],
+    ["#ffffff", "#ffffff", 1],
+    ["#777777", "#ffffff", 4.48],
+    ["#767676", "#ffffff", 4.54],
+    ["#ff0000", "#ffffff", 4],
+    ["#0000ff", "#ffffff", 8.59],
+  ])("%s on %s is %d:1", (a, b, ratio) => {
+    expect(contrastRatio(a, b)).toBeCloseTo(ratio, 2)
+  })
+
+  it("does not depend on the order of the colors", () => {
+    expect(contrastRatio("#ffffff", "#336699")).toBe(contrastRatio("#336699", "#ffffff"))
+  })
+})
+
+describe("relativeLuminance", () => {
+  it("runs from 0 for black to 1 for white", () => {
+    expect(relativeLuminance("#000000")).toBe(0)
+    expect(relativeLuminance("#ffffff")).toBeCloseTo(1, 10)
+    expect(relativeLuminance("#808080")).toBeCloseTo(0.2159, 4)
+  })
+})
+
+describe("hsl conversions", () => {
+  it.each(["#ff0000", "#336699", "#7c3aed", "#0f172a", "#ffffff"])("round-trips %s", (hex) => {
+    expect(hslToHex(hexToHsl(hex))).toBe(hex)
+  })
+
+  it("reads hue, saturation and lightness", () => {
+    expect(hexToHsl("#ff0000")).toEqual({ h: 0, s: 100, l: 50 })
+    expect(hexToHsl("#0000ff")).toEqual({ h: 240, s: 100, l: 50 })
+  })
+
+  it("wraps the hue and clamps the lightness", () => {
+    expect(shiftHsl({ h: 350, s: 50, l: 95 }, { h: 20, l: 10 })).toEqual({ h: 10, s: 50, l: 100 })
+    expect(shiftHsl({ h: 10, s: 50, l: 5 }, { h: -20, l: -10 })).toEqual({ h: 350, s: 50, l: 0 })
+  })
+})
+
+describe("blendHex", () => {
+  it("mixes the top color over the bottom one", () => {
+    expect(blendHex("#000000", "#ffffff", 0.5)).toBe("#808080")
+    expect(blendHex("#336699", "#ffffff", 0)).toBe("#336699")
+    expect(blendHex("#336699", "#ffffff", 1)).toBe("#ffffff")
+  })
+})
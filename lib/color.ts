@@ -0,0 +1,71 @@
+/** Hue in degrees, saturation and lightness in percent. */
+export interface Hsl {
+  h: number
+  s: number
+  l: number
+}
+
+/** Red, green and blue channels, each 0–255. */
+export type Rgb = [number, number, number]
+
+export function hexToRgb(hex: string): Rgb {
+  const value = Number.parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+export function rgbToHex(rgb: Rgb) {
+  return `#${rgb.map((channel) => Math.round(channel).toString(16).padStart(2, "0")).join("")}`
+}
+
+export function rgbToHsl(rgb: Rgb): Hsl {
+  const [r, g, b] = rgb.map((channel) => channel / 255)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  const d = max - min
+  if (d === 0) return { h: 0, s: 0, l: l * 100 }
+
+  const s = d / (1 - Math.abs(2 * l - 1))
+  const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4
+  return { h: (h * 60 + 360) % 360, s: s * 100, l: l * 100 }
+}
+
+export function hexToHsl(hex: string): Hsl {
+  return rgbToHsl(hexToRgb(hex))
+}
+
+export function hslToHex({ h, s, l }: Hsl) {
+  const sat = s / 100
+  const light = l / 100
+  const k = (n: number) => (n + h / 30) % 12
+  const a = sat * Math.min(light, 1 - light)
+  const f = (n: number) => light - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+  return rgbToHex([f(0) * 255, f(8) * 255, f(4) * 255])
+}
+
+/** Rotates the hue and moves the lightness, clamping lightness to 0–100. */
+export function shiftHsl(color: Hsl, { h = 0, l = 0 }: { h?: number; l?: number }): Hsl {
+  return { h: (color.h + h + 360) % 360, s: color.s, l: Math.min(100, Math.max(0, color.l + l)) }
+}
+
+/** WCAG 2 relative luminance. */
+export function relativeLuminance(hex: string) {
+  const [r, g, b] = hexToRgb(hex).map((channel) => {
+    const c = channel / 255
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/** WCAG 2 contrast ratio between two colors, from 1 to 21. */
+export function contrastRatio(a: string, b: string) {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+/** `top` painted over `bottom` at `alpha` opacity, as a solid color. */
+export function blendHex(bottom: string, top: string, alpha: number) {
+  const below = hexToRgb(bottom)
+  const above = hexToRgb(top)
+  return rgbToHex([0, 1, 2].map((channel) => below[channel] + (above[channel] - below[channel]) * alpha) as Rgb)
+}
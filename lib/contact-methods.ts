@@ -0,0 +1,261 @@
+import {
+  CalendarClock,
+  Github,
+  Globe,
+  Linkedin,
+  Mail,
+  MapPin,
+  MessageCircle,
+  MessagesSquare,
+  Phone,
+  Send,
+  ShieldCheck,
+  Twitter,
+  Users,
+  type LucideIcon,
+} from "lucide-react"
+
+export interface ContactAction {
+  href: string
+  /** External actions open in a new tab; app schemes (sms:, mailto:) do not. */
+  external: boolean
+}
+
+/** The fields of a `ContactMethod` that channels read when building links. */
+export interface ContactTarget {
+  value: string
+  message?: string
+  subject?: string
+}
+
+export interface ContactChannel {
+  label: string
+  subtitle: string
+  icon: LucideIcon
+  /** Brand color used behind the icon. */
+  color: string
+  /** Example value shown in the designer. */
+  placeholder: string
+  /** Returns an error message when the value cannot be turned into a link. */
+  validate(value: string): string | undefined
+  href(target: ContactTarget): ContactAction
+  /** X-SOCIALPROFILE type written to vCards, for social networks. */
+  socialProfile?: string
+}
+
+/**
+ * Normalizes a phone number to E.164 (`+15550123`). Numbers without a country
+ * code are returned as bare digits since the country cannot be inferred.
+ */
+export function toE164(value: string) {
+  const trimmed = value.trim().replace(/^00/, "+")
+  const digits = trimmed.replace(/\D/g, "")
+  return trimmed.startsWith("+") ? `+${digits}` : digits
+}
+
+function withQuery(base: string, params: Record<string, string | undefined>) {
+  const query = Object.entries(params)
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&")
+  return query ? `${base}?${query}` : base
+}
+
+function ensureHttps(value: string) {
+  return /^https?:\/\//i.test(value) ? value : `https://${value}`
+}
+
+/** Accepts a full profile URL on `host` or a bare (optionally @-prefixed) handle. */
+function profileUrl(value: string, host: RegExp, base: string) {
+  const trimmed = value.trim()
+  return host.test(trimmed) ? ensureHttps(trimmed) : `${base}${trimmed.replace(/^@/, "")}`
+}
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const HANDLE = /^@?[A-Za-z0-9_.-]+$/
+
+function phoneError(value: string) {
+  const digits = toE164(value).replace(/^\+/, "")
+  return digits.length >= 6 && digits.length <= 15 ? undefined : "Enter a phone number with country code"
+}
+
+function handleError(host: RegExp) {
+  return (value: string) => (HANDLE.test(value.trim()) || host.test(value) ? undefined : "Enter a username or profile URL")
+}
+
+function urlError(value: string) {
+  try {
+    new URL(ensureHttps(value.trim()))
+    return undefined
+  } catch {
+    return "Enter a valid URL"
+  }
+}
+
+const LINKEDIN = /linkedin\.com\//i
+const TELEGRAM = /t\.me\//i
+const X = /(x|twitter)\.com\//i
+const GITHUB = /github\.com\//i
+const CALENDLY = /calendly\.com\//i
+
+/**
+ * Every channel a contact method can use. The object's keys are the
+ * `ContactMethod.kind` values stored in profiles, so adding a channel is a
+ * single entry here.
+ */
+const contactChannels = {
+  linkedin: {
+    label: "LinkedIn",
+    subtitle: "Connect professionally",
+    icon: Linkedin,
+    color: "#0A66C2",
+    placeholder: "https://linkedin.com/in/yourname",
+    validate: handleError(LINKEDIN),
+    href: ({ value }) => ({ href: profileUrl(value, LINKEDIN, "https://www.linkedin.com/in/"), external: true }),
+    socialProfile: "linkedin",
+  },
+  message: {
+    label: "Message",
+    subtitle: "Send a direct message",
+    icon: MessageCircle,
+    color: "#16A34A",
+    placeholder: "+1 555 0123",
+    validate: phoneError,
+    href: ({ value, message }) => ({ href: withQuery(`sms:${toE164(value)}`, { body: message }), external: false }),
+  },
+  whatsapp: {
+    label: "WhatsApp",
+    subtitle: "Chat with me",
+    icon: Phone,
+    color: "#25D366",
+    placeholder: "+1 555 0123",
+    validate: phoneError,
+    // wa.me expects the international number without "+" or separators.
+    href: ({ value, message }) => ({
+      href: withQuery(`https://wa.me/${toE164(value).replace(/^\+/, "")}`, { text: message }),
+      external: true,
+    }),
+  },
+  email: {
+    label: "Email",
+    subtitle: "Shoot me an email",
+    icon: Mail,
+    color: "#DC2626",
+    placeholder: "you@company.com",
+    validate: (value) => (EMAIL.test(value.trim()) ? undefined : "Enter a valid email address"),
+    href: ({ value, subject, message }) => ({
+      href: withQuery(`mailto:${value.trim()}`, { subject, body: message }),
+      external: false,
+    }),
+  },
+  address: {
+    label: "Address",
+    subtitle: "Find me here",
+    icon: MapPin,
+    color: "#EA580C",
+    placeholder: "123 Main St, San Francisco, CA",
+    validate: (value) => (value.trim() ? undefined : "Enter an address"),
+    // Google's universal maps URL opens the native maps app on iOS and Android.
+    href: ({ value }) => ({
+      href: withQuery("https://www.google.com/maps/search/", { api: "1", query: value.trim() }),
+      external: true,
+    }),
+  },
+  website: {
+    label: "Website",
+    subtitle: "Visit my site",
+    icon: Globe,
+    color: "#334155",
+    placeholder: "https://example.com",
+    validate: urlError,
+    href: ({ value }) => ({ href: ensureHttps(value.trim()), external: true }),
+  },
+  telegram: {
+    label: "Telegram",
+    subtitle: "Message me on Telegram",
+    icon: Send,
+    color: "#26A5E4",
+    placeholder: "@username",
+    validate: handleError(TELEGRAM),
+    href: ({ value }) => ({ href: profileUrl(value, TELEGRAM, "https://t.me/"), external: true }),
+    socialProfile: "telegram",
+  },
+  signal: {
+    label: "Signal",
+    subtitle: "Chat privately on Signal",
+    icon: ShieldCheck,
+    color: "#3A76F0",
+    placeholder: "+1 555 0123",
+    validate: phoneError,
+    href: ({ value }) => ({ href: `https://signal.me/#p/${toE164(value)}`, external: true }),
+  },
+  x: {
+    label: "X",
+    subtitle: "Follow me on X",
+    icon: Twitter,
+    color: "#000000",
+    placeholder: "@username",
+    validate: handleError(X),
+    href: ({ value }) => ({ href: profileUrl(value, X, "https://x.com/"), external: true }),
+    socialProfile: "twitter",
+  },
+  github: {
+    label: "GitHub",
+    subtitle: "See my code",
+    icon: Github,
+    color: "#181717",
+    placeholder: "username",
+    validate: handleError(GITHUB),
+    href: ({ value }) => ({ href: profileUrl(value, GITHUB, "https://github.com/"), external: true }),
+    socialProfile: "github",
+  },
+  calendly: {
+    label: "Calendly",
+    subtitle: "Book time with me",
+    icon: CalendarClock,
+    color: "#006BFF",
+    placeholder: "https://calendly.com/you/30min",
+    validate: (value) => (CALENDLY.test(value) || /^[\w-]+(\/[\w-]+)?$/.test(value.trim()) ? undefined : "Enter a Calendly link"),
+    href: ({ value }) => ({ href: profileUrl(value, CALENDLY, "https://calendly.com/"), external: true }),
+  },
+  teams: {
+    label: "Microsoft Teams",
+    subtitle: "Chat with me on Teams",
+    icon: Users,
+    color: "#6264A7",
+    placeholder: "you@company.com",
+    validate: (value) => (EMAIL.test(value.trim()) ? undefined : "Enter your Teams sign-in email"),
+    href: ({ value, message }) => ({
+      href: withQuery("https://teams.microsoft.com/l/chat/0/0", { users: value.trim(), message }),
+      external: true,
+    }),
+  },
+  wechat: {
+    label: "WeChat",
+    subtitle: "Add me on WeChat",
+    icon: MessagesSquare,
+    color: "#07C160",
+    placeholder: "wechat-id",
+    validate: (value) => (/^[A-Za-z][\w-]{5,19}$/.test(value.trim()) ? undefined : "Enter a WeChat ID"),
+    // WeChat has no web profile pages; the app scheme opens a chat when installed.
+    href: ({ value }) => ({ href: `weixin://dl/chat?${encodeURIComponent(value.trim())}`, external: false }),
+  },
+} satisfies Record<string, ContactChannel>
+
+export type ContactChannelKind = keyof typeof contactChannels
+
+export const contactChannelKinds = Object.keys(contactChannels) as [ContactChannelKind, ...ContactChannelKind[]]
+
+export function getContactChannel(kind: ContactChannelKind): ContactChannel {
+  return contactChannels[kind]
+}
+
+/** Resolves a contact method to the link its card opens. */
+export function resolveContactAction(method: ContactTarget & { kind: ContactChannelKind }): ContactAction {
+  return getContactChannel(method.kind).href(method)
+}
+
+/** Finds the channel a vCard X-SOCIALPROFILE type maps back to. */
+export function channelForSocialProfile(type: string): ContactChannelKind | undefined {
+  return contactChannelKinds.find((kind) => getContactChannel(kind).socialProfile === type.toLowerCase())
+}
@@ -0,0 +1,52 @@
+export interface CoverPattern {
+  label: string
+  /** Side of the square tile in CSS pixels. */
+  size: number
+  /** The tile's SVG markup, drawn in `color` on a transparent background. */
+  tile: (color: string) => string
+}
+
+/** Repeating tiles a cover can use. The keys are the ids stored in profiles. */
+const coverPatterns = {
+  dots: {
+    label: "Dots",
+    size: 16,
+    tile: (color) => `<circle cx="8" cy="8" r="1.5" fill="${color}"/>`,
+  },
+  grid: {
+    label: "Grid",
+    size: 24,
+    tile: (color) => `<path d="M24 0H0v24" fill="none" stroke="${color}" stroke-width="1"/>`,
+  },
+  diagonal: {
+    label: "Diagonal lines",
+    size: 12,
+    tile: (color) => `<path d="M-3 3l6-6M0 12L12 0M9 15l6-6" stroke="${color}" stroke-width="1.5"/>`,
+  },
+  waves: {
+    label: "Waves",
+    size: 40,
+    tile: (color) =>
+      `<path d="M0 10q10-8 20 0t20 0M0 30q10-8 20 0t20 0" fill="none" stroke="${color}" stroke-width="1.5"/>`,
+  },
+  plus: {
+    label: "Crosses",
+    size: 28,
+    tile: (color) => `<path d="M14 9v10M9 14h10" stroke="${color}" stroke-width="2" stroke-linecap="round"/>`,
+  },
+} satisfies Record<string, CoverPattern>
+
+export type CoverPatternId = keyof typeof coverPatterns
+
+export const coverPatternIds = Object.keys(coverPatterns) as [CoverPatternId, ...CoverPatternId[]]
+
+export function getCoverPattern(id: CoverPatternId): CoverPattern {
+  return coverPatterns[id]
+}
+
+/** A `background-image` value that tiles pattern `id` in `color`. */
+export function coverPatternImage(id: CoverPatternId, color: string) {
+  const { size, tile } = coverPatterns[id]
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${tile(color)}</svg>`
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`
+}
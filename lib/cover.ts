@@ -0,0 +1,49 @@
+import type { CardTheme, Cover, CoverMedia, CoverMediaKind } from "@/lib/card-profile"
+import { defaultCardTheme } from "@/lib/card-theme"
+
+/** The original cover: theme gradient, no tint. */
+export const defaultCover: Cover = {
+  media: { kind: "theme" },
+  overlay: { color: "#000000", opacity: 0 },
+}
+
+export const coverMediaKinds: Record<CoverMediaKind, string> = {
+  theme: "Theme gradient",
+  image: "Image",
+  video: "Looping video",
+  pattern: "Pattern",
+  gradient: "Custom gradient",
+}
+
+/**
+ * Starting values when the designer switches a cover to `kind`. Colors are
+ * taken from the card's theme so the cover keeps matching it.
+ */
+export function initialCoverMedia(kind: CoverMediaKind, theme: CardTheme = defaultCardTheme): CoverMedia {
+  switch (kind) {
+    case "theme":
+      return { kind }
+    case "image":
+      return { kind, image: { src: "", alt: "" }, focalPoint: { x: 50, y: 50 } }
+    case "video":
+      return { kind, src: "", poster: "" }
+    case "pattern":
+      return { kind, pattern: "dots", color: theme.gradient.from, background: theme.gradient.to }
+    case "gradient":
+      return {
+        kind,
+        angle: 135,
+        stops: [
+          { color: theme.gradient.from, position: 0 },
+          { color: theme.gradient.via, position: 50 },
+          { color: theme.gradient.to, position: 100 },
+        ],
+      }
+  }
+}
+
+/** A `linear-gradient()` for a custom gradient cover, with stops in position order. */
+export function coverGradientImage({ angle, stops }: Extract<CoverMedia, { kind: "gradient" }>) {
+  const sorted = [...stops].sort((a, b) => a.position - b.position)
+  return `linear-gradient(${angle}deg, ${sorted.map((stop) => `${stop.color} ${stop.position}%`).join(", ")})`
+}
@@ -0,0 +1,33 @@
+import type { CSSProperties } from "react"
+import type { CtaAnimation, CtaAnimationPreset } from "@/lib/card-profile"
+
+/** Two heartbeats, matching the card's original three-second attention pulse. */
+export const defaultCtaAnimation: CtaAnimation = {
+  preset: "heartbeat",
+  duration: 1.5,
+  delay: 0,
+  repeat: 2,
+}
+
+export const ctaAnimationPresets: Record<CtaAnimationPreset, { label: string; className?: string }> = {
+  heartbeat: { label: "Heartbeat", className: "motion-safe:animate-cta-heartbeat" },
+  shimmer: { label: "Shimmer", className: "motion-safe:animate-cta-shimmer" },
+  bounce: { label: "Bounce", className: "motion-safe:animate-cta-bounce" },
+  glow: { label: "Glow", className: "motion-safe:animate-cta-glow" },
+  none: { label: "None" },
+}
+
+/**
+ * The class and timing variables for the CTA animation. The classes only apply
+ * under `motion-safe`, so visitors who prefer reduced motion see a still button.
+ */
+export function ctaAnimationProps(animation: CtaAnimation = defaultCtaAnimation) {
+  return {
+    className: ctaAnimationPresets[animation.preset].className,
+    style: {
+      "--cta-duration": `${animation.duration}s`,
+      "--cta-delay": `${animation.delay}s`,
+      "--cta-repeat": String(animation.repeat),
+    } as CSSProperties,
+  }
+}
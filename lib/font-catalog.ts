@@ -0,0 +1,33 @@
+export interface FontFamily {
+  label: string
+  category: "sans" | "serif" | "mono"
+  /** The variable font's weight axis. */
+  weights: [min: number, max: number]
+}
+
+/**
+ * The families a card can use. The keys are the ids stored in profiles; the
+ * font files themselves are loaded in `lib/fonts.ts`.
+ */
+const fontFamilies = {
+  inter: { label: "Inter", category: "sans", weights: [100, 900] },
+  "dm-sans": { label: "DM Sans", category: "sans", weights: [100, 1000] },
+  "space-grotesk": { label: "Space Grotesk", category: "sans", weights: [300, 700] },
+  "playfair-display": { label: "Playfair Display", category: "serif", weights: [400, 900] },
+  lora: { label: "Lora", category: "serif", weights: [400, 700] },
+  "jetbrains-mono": { label: "JetBrains Mono", category: "mono", weights: [100, 800] },
+} satisfies Record<string, FontFamily>
+
+export type FontFamilyId = keyof typeof fontFamilies
+
+export const fontFamilyIds = Object.keys(fontFamilies) as [FontFamilyId, ...FontFamilyId[]]
+
+export function getFontFamily(id: FontFamilyId): FontFamily {
+  return fontFamilies[id]
+}
+
+/** Weights in steps of 100 that `id` supports. */
+export function fontWeights(id: FontFamilyId) {
+  const [min, max] = getFontFamily(id).weights
+  return Array.from({ length: (max - min) / 100 + 1 }, (_, index) => min + index * 100)
+}
@@ -0,0 +1,92 @@
+import type { CSSProperties } from "react"
+import localFont from "next/font/local"
+import type { NextFont } from "next/dist/compiled/@next/font"
+import type { CardTypography } from "@/lib/card-profile"
+import { getFontFamily, type FontFamilyId } from "@/lib/font-catalog"
+
+// next/font requires each loader call to be a literal at module scope. The
+// files are the Latin variable subsets from Fontsource, checked into app/fonts
+// so nothing is fetched at build or run time. Only the default family is
+// preloaded; the others download when a card uses them, and their metric-matched
+// fallbacks keep the layout from shifting meanwhile.
+const inter = localFont({ src: "../app/fonts/inter-variable.woff2", weight: "100 900", display: "swap" })
+const dmSans = localFont({
+  src: "../app/fonts/dm-sans-variable.woff2",
+  weight: "100 1000",
+  display: "swap",
+  preload: false,
+})
+const spaceGrotesk = localFont({
+  src: "../app/fonts/space-grotesk-variable.woff2",
+  weight: "300 700",
+  display: "swap",
+  preload: false,
+})
+const playfairDisplay = localFont({
+  src: "../app/fonts/playfair-display-variable.woff2",
+  weight: "400 900",
+  display: "swap",
+  preload: false,
+  adjustFontFallback: "Times New Roman",
+})
+const lora = localFont({
+  src: "../app/fonts/lora-variable.woff2",
+  weight: "400 700",
+  display: "swap",
+  preload: false,
+  adjustFontFallback: "Times New Roman",
+})
+const jetbrainsMono = localFont({
+  src: "../app/fonts/jetbrains-mono-variable.woff2",
+  weight: "100 800",
+  display: "swap",
+  preload: false,
+})
+
+const fonts = {
+  inter,
+  "dm-sans": dmSans,
+  "space-grotesk": spaceGrotesk,
+  "playfair-display": playfairDisplay,
+  lora,
+  "jetbrains-mono": jetbrainsMono,
+} satisfies Record<FontFamilyId, NextFont>
+
+export function getFont(id: FontFamilyId): NextFont {
+  return fonts[id]
+}
+
+const GENERIC_FAMILY = { sans: "sans-serif", serif: "serif", mono: "monospace" }
+
+/** A `font-family` value for `id`, ending in the generic family of its category. */
+export function fontStack(id: FontFamilyId) {
+  return `${fonts[id].style.fontFamily}, ${GENERIC_FAMILY[getFontFamily(id).category]}`
+}
+
+/** Heading and body sizes for each scale step; `md` matches the original card. */
+const TYPE_SCALE = {
+  sm: { heading: "1.25rem", body: "0.875rem" },
+  md: { heading: "1.5rem", body: "1rem" },
+  lg: { heading: "1.875rem", body: "1.125rem" },
+}
+
+export const defaultCardTypography: CardTypography = {
+  heading: "inter",
+  body: "inter",
+  headingWeight: 700,
+  bodyWeight: 400,
+  scale: "md",
+}
+
+/** The CSS variables behind the card's `font-heading` and `font-body` utilities. */
+export function cardTypographyVariables(typography: CardTypography = defaultCardTypography): CSSProperties {
+  const sizes = TYPE_SCALE[typography.scale]
+  return {
+    "--card-font-heading": fontStack(typography.heading),
+    "--card-font-body": fontStack(typography.body),
+    "--card-heading-weight": typography.headingWeight,
+    "--card-body-weight": typography.bodyWeight,
+    "--card-heading-size": sizes.heading,
+    "--card-body-size": sizes.body,
+  } as CSSProperties
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { serializeCalendar, type CalendarEvent } from "@/lib/ics"
+
+const octets = (line: string) => new TextEncoder().encode(line).length
+
+const event: CalendarEvent = {
+  uid: "3f2a@cards.example.com",
+  start: "2025-03-10T09:00:00-04:00",
+  end: "2025-03-10T09:30:00-04:00",
+  created: "2025-03-01T12:34:56.789Z",
+  summary: "Meeting: Jane Doe and Sam, Lee",
+  description: "Agenda; pricing\nBring the C:\\ drive",
+  location: "Café Müller, Friedrichstraße 123, 10117 Berlin — second floor, ask for the meeting room at the back",
+  organizer: { name: "Jane Doe", email: "jane@example.com" },
+  attendees: [{ name: "Sam; Lee", email: "sam@example.com" }],
+}
+
+const unfold = (text: string) => text.replace(/\r\n[ \t]/g, "")
+
+describe("serializeCalendar", () => {
+  it("writes start and end as UTC date-times", () => {
+    const text = serializeCalendar([event])
+    expect(text).toContain("DTSTART:20250310T130000Z\r\n")
+    expect(text).toContain("DTEND:20250310T133000Z\r\n")
+    expect(text).toContain("DTSTAMP:20250301T123456Z\r\n")
+  })
+
+  it("escapes commas, semicolons, backslashes and line breaks in text", () => {
+    const text = unfold(serializeCalendar([event], { name: "Jane, bookings" }))
+    expect(text).toContain("X-WR-CALNAME:Jane\\, bookings\r\n")
+    expect(text).toContain("SUMMARY:Meeting: Jane Doe and Sam\\, Lee\r\n")
+    expect(text).toContain("DESCRIPTION:Agenda\\; pricing\\nBring the C:\\\\ drive\r\n")
+    expect(text).toContain('ATTENDEE;CN="Sam; Lee";ROLE=REQ-PARTICIPANT:mailto:sam@example.com\r\n')
+  })
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const text = serializeCalendar([event])
+    const lines = text.split("\r\n").slice(0, -1)
+    expect(lines.some((line) => line.startsWith(" "))).toBe(true)
+    for (const line of lines) expect(octets(line)).toBeLessThanOrEqual(75)
+    expect(text).not.toContain("�")
+    expect(unfold(text)).toContain(`LOCATION:${event.location!.replace(/,/g, "\\,")}\r\n`)
+  })
+
+  it("wraps every event in one calendar with CRLF line endings", () => {
+    const text = serializeCalendar([event, { ...event, uid: "second@cards.example.com" }])
+    expect(text.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true)
+    expect(text.endsWith("END:VEVENT\r\nEND:VCALENDAR\r\n")).toBe(true)
+    expect(text.match(/BEGIN:VEVENT/g)).toHaveLength(2)
+    expect(text.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/)
+  })
+})
@@ -0,0 +1,59 @@
+import { CRLF, escapeText, foldLine, paramValue } from "@/lib/vcard/encoding"
+
+export interface CalendarPerson {
+  name: string
+  email: string
+}
+
+export interface CalendarEvent {
+  /** Globally unique and stable, so re-importing updates the event instead of duplicating it. */
+  uid: string
+  start: string
+  end: string
+  created: string
+  summary: string
+  description?: string
+  location?: string
+  organizer?: CalendarPerson
+  attendees?: CalendarPerson[]
+}
+
+/** RFC 5545 UTC date-time: 20250102T153000Z. */
+function icsDateTime(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+}
+
+function personLine(property: "ORGANIZER" | "ATTENDEE", person: CalendarPerson) {
+  const params = [`CN=${paramValue(person.name)}`]
+  if (property === "ATTENDEE") params.push("ROLE=REQ-PARTICIPANT")
+  return foldLine(`${property};${params.join(";")}:mailto:${person.email}`)
+}
+
+/**
+ * Serializes events as an iCalendar file (RFC 5545) with CRLF line endings,
+ * escaping and folding. Text values follow the same rules as vCard, so the
+ * vCard encoders are reused.
+ */
+export function serializeCalendar(events: CalendarEvent[], { name }: { name?: string } = {}) {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Delight Card//Bookings//EN", "CALSCALE:GREGORIAN", "METHOD:PUBLISH"]
+  if (name) lines.push(foldLine(`X-WR-CALNAME:${escapeText(name)}`))
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      foldLine(`UID:${event.uid}`),
+      `DTSTAMP:${icsDateTime(event.created)}`,
+      `DTSTART:${icsDateTime(event.start)}`,
+      `DTEND:${icsDateTime(event.end)}`,
+      foldLine(`SUMMARY:${escapeText(event.summary)}`),
+    )
+    if (event.description) lines.push(foldLine(`DESCRIPTION:${escapeText(event.description)}`))
+    if (event.location) lines.push(foldLine(`LOCATION:${escapeText(event.location)}`))
+    if (event.organizer) lines.push(personLine("ORGANIZER", event.organizer))
+    for (const attendee of event.attendees ?? []) lines.push(personLine("ATTENDEE", attendee))
+    lines.push("END:VEVENT")
+  }
+
+  lines.push("END:VCALENDAR")
+  return lines.join(CRLF) + CRLF
+}
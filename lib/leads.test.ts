@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { isLeadFieldOptional, leadSubmissionSchema, type LeadFormBlock } from "@/lib/leads"
+
+function form(fields: Partial<LeadFormBlock["fields"]>): LeadFormBlock {
+  return {
+    id: "lf1",
+    type: "lead-form",
+    fields: { name: "required", email: "optional", phone: "optional", company: "hidden", note: "optional", ...fields },
+  }
+}
+
+function errors(block: LeadFormBlock, values: Record<string, unknown>) {
+  const result = leadSubmissionSchema(block).safeParse(values)
+  return result.success ? undefined : result.error.flatten().fieldErrors
+}
+
+describe("leadSubmissionSchema", () => {
+  it("accepts either an email or a phone number when both are optional", () => {
+    expect(errors(form({}), { name: "Jane", email: "jane@example.com" })).toBeUndefined()
+    expect(errors(form({}), { name: "Jane", phone: "+1 555 0100", email: "" })).toBeUndefined()
+  })
+
+  it("refuses leads with no way to reply", () => {
+    expect(errors(form({}), { name: "Jane", email: "", phone: " ", note: "Call me" })).toEqual({
+      email: ["Enter an email or phone number"],
+      phone: ["Enter an email or phone number"],
+    })
+  })
+
+  it("requires the only reply field a form shows", () => {
+    const block = form({ phone: "hidden" })
+    expect(isLeadFieldOptional(block, "email")).toBe(false)
+    expect(errors(block, { name: "Jane" })).toEqual({ email: ["Email is required"] })
+  })
+
+  it("leaves other optional fields optional", () => {
+    expect(isLeadFieldOptional(form({}), "note")).toBe(true)
+    expect(isLeadFieldOptional(form({}), "email")).toBe(true)
+  })
+
+  it("ignores fields the form does not show", () => {
+    expect(errors(form({}), { name: "Jane", email: "jane@example.com", company: 42 })).toBeUndefined()
+  })
+})
@@ -0,0 +1,115 @@
+import { z } from "zod"
+import type { CardBlock } from "@/lib/card-profile"
+
+export type LeadFormBlock = Extract<CardBlock, { type: "lead-form" }>
+
+function text(max: number) {
+  return z.string().trim().max(max, `Keep it under ${max} characters`)
+}
+
+/** What each field asks for, in form order, and how a filled-in value must look. */
+const leadFields = {
+  name: { label: "Name", input: "text", autoComplete: "name", value: text(100) },
+  email: {
+    label: "Email",
+    input: "email",
+    autoComplete: "email",
+    value: text(254).email("Enter a valid email address"),
+  },
+  phone: {
+    label: "Phone",
+    input: "tel",
+    autoComplete: "tel",
+    value: text(40).regex(/^\+?[\d\s().-]{5,}$/, "Enter a valid phone number"),
+  },
+  company: { label: "Company", input: "text", autoComplete: "organization", value: text(100) },
+  note: { label: "Note", input: "textarea", autoComplete: "off", value: text(2000) },
+} satisfies Record<keyof LeadFormBlock["fields"], { label: string; input: string; autoComplete: string; value: z.ZodString }>
+
+export type LeadFieldId = keyof typeof leadFields
+
+export const leadFieldIds = Object.keys(leadFields) as [LeadFieldId, ...LeadFieldId[]]
+
+export function getLeadField(id: LeadFieldId) {
+  return leadFields[id]
+}
+
+/** The fields the owner can reply through; forms show at least one. */
+const REPLY_FIELDS: LeadFieldId[] = ["email", "phone"]
+
+function replyFieldsShown(block: LeadFormBlock) {
+  return REPLY_FIELDS.filter((id) => block.fields[id] !== "hidden")
+}
+
+/** Whether visitors may leave a shown field empty. A form's only reply field never is. */
+export function isLeadFieldOptional(block: LeadFormBlock, id: LeadFieldId) {
+  if (block.fields[id] !== "optional") return false
+  return !REPLY_FIELDS.includes(id) || replyFieldsShown(block).length > 1
+}
+
+/**
+ * Validates a visitor's answers to one form: only the fields it shows, with
+ * required ones filled in, a way to reply (email or phone) given, and the
+ * consent box ticked when there is one. The browser and the route handler
+ * share it, so both give the same messages.
+ */
+export function leadSubmissionSchema(block: LeadFormBlock) {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  for (const id of leadFieldIds) {
+    if (block.fields[id] === "hidden") continue
+    const { label, value } = leadFields[id]
+    const missing = `${label} is required`
+    shape[id] = isLeadFieldOptional(block, id)
+      ? z.string().trim().pipe(z.union([z.literal(""), value])).optional()
+      : z.string({ required_error: missing }).trim().min(1, missing).pipe(value)
+  }
+  if (block.consent) {
+    shape.consent = z.literal(true, { errorMap: () => ({ message: "Please agree before sending" }) })
+  }
+
+  const replyFields = replyFieldsShown(block)
+  return z.object(shape).superRefine((values, context) => {
+    if (replyFields.some((id) => values[id])) return
+    for (const id of replyFields) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: [id], message: "Enter an email or phone number" })
+    }
+  })
+}
+
+export type LeadSubmission = Partial<Record<LeadFieldId, string>> & { consent?: boolean }
+
+/** A stored response. Empty answers are left out; `consent` keeps the wording the visitor agreed to. */
+export const leadSchema = z.object({
+  id: z.string().min(1),
+  blockId: z.string().min(1),
+  submittedAt: z.string().datetime({ offset: true }),
+  name: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  company: z.string().optional(),
+  note: z.string().optional(),
+  consent: z.string().optional(),
+})
+
+export type Lead = z.infer<typeof leadSchema>
+
+export function createLead(block: LeadFormBlock, submission: LeadSubmission, submittedAt = new Date()): Lead {
+  const lead: Lead = { id: crypto.randomUUID(), blockId: block.id, submittedAt: submittedAt.toISOString() }
+  for (const id of leadFieldIds) {
+    if (submission[id]) lead[id] = submission[id]
+  }
+  if (block.consent && submission.consent) lead.consent = block.consent
+  return lead
+}
+
+/** Quotes a CSV cell, and defuses values a spreadsheet would run as a formula. */
+function csvCell(value = "") {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function leadsToCsv(leads: Lead[]) {
+  const header = ["Submitted", ...leadFieldIds.map((id) => leadFields[id].label), "Consent"]
+  const rows = leads.map((lead) => [lead.submittedAt, ...leadFieldIds.map((id) => lead[id]), lead.consent])
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { isOwner, requireOwner } from "@/lib/owner-auth"
+
+function request(authorization?: string) {
+  return new Request("http://localhost/editor/jane/leads.csv", {
+    headers: authorization ? { authorization } : {},
+  })
+}
+
+const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString("base64")}`
+
+describe("requireOwner", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("stays closed until a password is configured", async () => {
+    vi.stubEnv("CARD_OWNER_PASSWORD", "")
+    expect((await requireOwner(request(basic("owner:"))))?.status).toBe(403)
+    expect(await isOwner(request(basic("owner:")).headers)).toBe(false)
+  })
+
+  it("challenges requests without the password", async () => {
+    vi.stubEnv("CARD_OWNER_PASSWORD", "s3cret:pass")
+    for (const authorization of [undefined, basic("owner:wrong"), "Bearer s3cret:pass", "Basic !!!"]) {
+      const response = await requireOwner(request(authorization))
+      expect(response?.status).toBe(401)
+      expect(response?.headers.get("WWW-Authenticate")).toMatch(/^Basic realm=/)
+    }
+  })
+
+  it("lets the owner through with any user name", async () => {
+    vi.stubEnv("CARD_OWNER_PASSWORD", "s3cret:pass")
+    expect(await requireOwner(request(basic("owner:s3cret:pass")))).toBeUndefined()
+    expect(await requireOwner(request(basic(":s3cret:pass")))).toBeUndefined()
+    expect(await isOwner(request(basic("owner:s3cret:pass")).headers)).toBe(true)
+  })
+
+  it("decodes UTF-8 passwords", async () => {
+    vi.stubEnv("CARD_OWNER_PASSWORD", "pässwörd")
+    expect(await isOwner(request(basic("owner:pässwörd")).headers)).toBe(true)
+  })
+})
@@ -0,0 +1,55 @@
+const REALM = "Card owner"
+
+const encoder = new TextEncoder()
+
+async function digest(value: string) {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(value)))
+}
+
+/** Compares digests so neither the length nor the content leaks through timing. */
+async function matches(given: string, expected: string) {
+  const [a, b] = await Promise.all([digest(given), digest(expected)])
+  let difference = 0
+  for (let index = 0; index < a.length; index++) difference |= a[index] ^ b[index]
+  return difference === 0
+}
+
+function passwordOf(authorization: string | null) {
+  const credentials = /^Basic\s+([A-Za-z0-9+/=]+)$/i.exec(authorization ?? "")?.[1]
+  if (!credentials) return undefined
+  let decoded: string
+  try {
+    decoded = new TextDecoder().decode(Uint8Array.from(atob(credentials), (char) => char.charCodeAt(0)))
+  } catch {
+    return undefined
+  }
+  return decoded.slice(decoded.indexOf(":") + 1)
+}
+
+/**
+ * Whether a request comes from the card owner: HTTP Basic auth with
+ * `CARD_OWNER_PASSWORD` as the password (any user name). Nobody is the owner
+ * while it is unset. Runs in both the Node and the edge runtime.
+ */
+export async function isOwner(headers: Headers) {
+  const expected = process.env.CARD_OWNER_PASSWORD
+  if (!expected) return false
+  const password = passwordOf(headers.get("authorization"))
+  return password !== undefined && (await matches(password, expected))
+}
+
+/**
+ * Guards routes that edit cards or serve visitors' personal details. Returns
+ * the response to send instead, or `undefined` when the request may go ahead.
+ */
+export async function requireOwner(request: Request): Promise<Response | undefined> {
+  if (!process.env.CARD_OWNER_PASSWORD) {
+    return new Response("Set CARD_OWNER_PASSWORD to edit cards and download visitor data", { status: 403 })
+  }
+  if (await isOwner(request.headers)) return undefined
+
+  return new Response("Sign in as the card owner", {
+    status: 401,
+    headers: { "WWW-Authenticate": `Basic realm="${REALM}", charset="UTF-8"`, "Cache-Control": "no-store" },
+  })
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { contrastRatio } from "@/lib/color"
+import { ensureWhiteContrast, extractPalette, MIN_WHITE_CONTRAST, proposeTheme } from "@/lib/palette"
+
+/** RGBA data for a list of `[r, g, b, a]` pixels. */
+const image = (...pixels: number[][]) => new Uint8ClampedArray(pixels.flat())
+
+const RED = [204, 0, 0, 255]
+const BLUE = [0, 0, 204, 255]
+const WHITE = [255, 255, 255, 255]
+const CLEAR = [0, 255, 0, 0]
+
+describe("extractPalette", () => {
+  it("splits pixels at the median of the widest channel", () => {
+    expect(extractPalette(image(RED, BLUE, RED, WHITE, RED, CLEAR), 4)).toEqual([
+      { hex: "#cc0000", weight: 0.75 },
+      { hex: "#0000cc", weight: 0.25 },
+    ])
+  })
+
+  it("merges boxes of nearly the same color", () => {
+    expect(extractPalette(image(RED, [200, 0, 0, 255]), 2)).toEqual([{ hex: "#c80000", weight: 1 }])
+  })
+
+  it("falls back to white and black when the image has nothing else", () => {
+    expect(extractPalette(image(WHITE, WHITE, CLEAR))).toEqual([{ hex: "#ffffff", weight: 1 }])
+  })
+
+  it("returns nothing for a fully transparent image", () => {
+    expect(extractPalette(image(CLEAR, CLEAR))).toEqual([])
+  })
+})
+
+describe("ensureWhiteContrast", () => {
+  it("darkens light colors until white text passes", () => {
+    const yellow = ensureWhiteContrast({ h: 60, s: 100, l: 50 })
+    expect(contrastRatio(yellow, "#ffffff")).toBeGreaterThanOrEqual(MIN_WHITE_CONTRAST)
+  })
+
+  it("leaves dark enough colors alone", () => {
+    expect(ensureWhiteContrast({ h: 240, s: 100, l: 40 })).toBe("#0000cc")
+  })
+})
+
+describe("proposeTheme", () => {
+  it("takes the primary and accent from distinct hues", () => {
+    const theme = proposeTheme([
+      { hex: "#cc0000", weight: 0.75 },
+      { hex: "#0000cc", weight: 0.25 },
+    ])
+    expect(theme).toMatchObject({ primary: "#cc0000", accent: "#0000cc" })
+    for (const color of [theme!.primary, theme!.accent, ...Object.values(theme!.gradient)]) {
+      expect(contrastRatio(color, "#ffffff")).toBeGreaterThanOrEqual(MIN_WHITE_CONTRAST)
+    }
+  })
+
+  it("returns nothing for an empty palette", () => {
+    expect(proposeTheme([])).toBeUndefined()
+  })
+})
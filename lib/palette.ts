@@ -0,0 +1,147 @@
+import type { CardTheme } from "@/lib/card-profile"
+import { contrastRatio, hexToHsl, hslToHex, rgbToHex, rgbToHsl, shiftHsl, type Hsl, type Rgb } from "@/lib/color"
+
+export interface PaletteColor {
+  hex: string
+  /** Share of the sampled pixels this color stands for, 0–1. */
+  weight: number
+}
+
+/** The theme colors a palette proposes; radius and color scheme stay the user's. */
+export type ProposedTheme = Pick<CardTheme, "primary" | "accent" | "surface" | "gradient">
+
+/** WCAG AA for normal-size text, checked against the white text cards draw on these colors. */
+export const MIN_WHITE_CONTRAST = 4.5
+
+const WHITE = "#ffffff"
+
+/**
+ * Collects opaque pixels from RGBA data. Near-white and near-black pixels are
+ * skipped unless the image is nothing else, since logo backgrounds and outlines
+ * say little about the brand color.
+ */
+function samplePixels(data: Uint8ClampedArray): Rgb[] {
+  const opaque: Rgb[] = []
+  const colorful: Rgb[] = []
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue
+    const rgb: Rgb = [data[i], data[i + 1], data[i + 2]]
+    opaque.push(rgb)
+    const { l } = rgbToHsl(rgb)
+    if (l > 8 && l < 94) colorful.push(rgb)
+  }
+  return colorful.length > 0 ? colorful : opaque
+}
+
+function channelRange(pixels: Rgb[], channel: number) {
+  let min = 255
+  let max = 0
+  for (const pixel of pixels) {
+    min = Math.min(min, pixel[channel])
+    max = Math.max(max, pixel[channel])
+  }
+  return max - min
+}
+
+function average(pixels: Rgb[]): Rgb {
+  const sum = pixels.reduce<Rgb>((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0])
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length]
+}
+
+/** RGB distance below which two palette colors read as the same. */
+const MERGE_DISTANCE = 16
+
+function distance(a: Rgb, b: Rgb) {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+/**
+ * Median-cut quantization of RGBA pixel data: the box with the widest channel
+ * range is split at its median until there are `count` boxes, and each box's
+ * average becomes a palette color. Colors are returned most common first, so
+ * there may be fewer than `count` once near-duplicates are merged.
+ */
+export function extractPalette(data: Uint8ClampedArray, count = 6): PaletteColor[] {
+  const pixels = samplePixels(data)
+  if (pixels.length === 0) return []
+
+  const boxes: Rgb[][] = [pixels]
+  while (boxes.length < count) {
+    let widest = -1
+    let widestRange = 0
+    let channel = 0
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return
+      for (let c = 0; c < 3; c++) {
+        const range = channelRange(box, c)
+        if (range > widestRange) {
+          widest = index
+          widestRange = range
+          channel = c
+        }
+      }
+    })
+    // Every remaining box is a single color.
+    if (widest === -1) break
+
+    const box = boxes[widest].sort((a, b) => a[channel] - b[channel])
+    const middle = Math.floor(box.length / 2)
+    boxes.splice(widest, 1, box.slice(0, middle), box.slice(middle))
+  }
+
+  // Flat logos split into several boxes of almost the same color; fold those together.
+  const merged: { rgb: Rgb; size: number }[] = []
+  for (const box of boxes) {
+    const rgb = average(box)
+    const twin = merged.find((color) => distance(color.rgb, rgb) < MERGE_DISTANCE)
+    if (twin) twin.size += box.length
+    else merged.push({ rgb, size: box.length })
+  }
+
+  return merged
+    .map(({ rgb, size }) => ({ hex: rgbToHex(rgb), weight: size / pixels.length }))
+    .sort((a, b) => b.weight - a.weight)
+}
+
+/** Darkens `color` until white text on it reaches `min` contrast. */
+export function ensureWhiteContrast(color: Hsl, min = MIN_WHITE_CONTRAST) {
+  let adjusted = color
+  while (contrastRatio(hslToHex(adjusted), WHITE) < min && adjusted.l > 0) {
+    adjusted = shiftHsl(adjusted, { l: -1 })
+  }
+  return hslToHex(adjusted)
+}
+
+function hueDistance(a: Hsl, b: Hsl) {
+  const delta = Math.abs(a.h - b.h) % 360
+  return Math.min(delta, 360 - delta)
+}
+
+/**
+ * Picks theme colors from a palette. The primary is the most prominent
+ * saturated color, the accent the next one with a clearly different hue, and
+ * the cover gradient runs from a lighter primary through the accent to a deeper
+ * primary. Every color that carries white text is darkened until it passes
+ * `MIN_WHITE_CONTRAST`.
+ */
+export function proposeTheme(palette: PaletteColor[]): ProposedTheme | undefined {
+  if (palette.length === 0) return undefined
+
+  const colors = palette.map((color) => ({ ...color, hsl: hexToHsl(color.hex) }))
+  const saturated = colors.filter(({ hsl }) => hsl.s >= 20)
+  const candidates = saturated.length > 0 ? saturated : colors
+  const score = ({ weight, hsl }: (typeof colors)[number]) => weight * (0.5 + hsl.s / 100)
+  const [primary] = [...candidates].sort((a, b) => score(b) - score(a))
+  const accent = candidates.find((color) => hueDistance(color.hsl, primary.hsl) >= 30)?.hsl ?? shiftHsl(primary.hsl, { h: 30 })
+
+  return {
+    primary: ensureWhiteContrast(primary.hsl),
+    accent: ensureWhiteContrast(accent),
+    surface: hslToHex({ ...primary.hsl, l: 97 }),
+    gradient: {
+      from: ensureWhiteContrast(shiftHsl(primary.hsl, { l: 15 })),
+      via: ensureWhiteContrast(accent),
+      to: ensureWhiteContrast(shiftHsl(primary.hsl, { h: -20, l: -10 })),
+    },
+  }
+}
@@ -0,0 +1,62 @@
+import http from "http"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { fetchPublic, isPublicAddress } from "@/lib/public-fetch"
+
+const options = { maxBytes: 1024, timeoutMs: 2000 }
+
+describe("isPublicAddress", () => {
+  it.each(["93.184.215.14", "8.8.8.8", "2606:2800:21f:cb07:6820:80da:af6b:8b2c"])("allows %s", (address) => {
+    expect(isPublicAddress(address)).toBe(true)
+  })
+
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fe80::1",
+    "fd00::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a9fe:a9fe",
+    "localhost",
+  ])("refuses %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false)
+  })
+})
+
+describe("fetchPublic", () => {
+  let server: http.Server
+  let requests = 0
+  let port = 0
+
+  beforeAll(async () => {
+    server = http.createServer((_, response) => {
+      requests++
+      response.end("secret")
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    port = (server.address() as { port: number }).port
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  it.each([
+    () => `http://127.0.0.1:${port}/`,
+    () => `http://localhost:${port}/`,
+    () => `http://[::ffff:127.0.0.1]:${port}/`,
+    () => `http://0x7f000001:${port}/`,
+    () => "http://169.254.169.254/latest/meta-data/",
+    () => "file:///etc/passwd",
+    () => "not a url",
+  ])("refuses private hosts and other schemes (%#)", async (url) => {
+    await expect(fetchPublic(url(), options)).resolves.toBeUndefined()
+    expect(requests).toBe(0)
+  })
+})
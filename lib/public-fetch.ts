@@ -0,0 +1,153 @@
+import { lookup as dnsLookup, type LookupAddress, type LookupOptions } from "dns"
+import http, { type IncomingMessage } from "http"
+import https from "https"
+import { BlockList, isIP } from "net"
+
+/** Addresses a server-side fetch must never reach: this host, private networks and cloud metadata. */
+const blocked = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  // NAT64 reaches IPv4 hosts, private ones included. IPv4-mapped addresses match the rules above.
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blocked.addSubnet(network, prefix, "ipv6")
+}
+
+/** Whether an IP address is on the public internet. */
+export function isPublicAddress(address: string) {
+  const family = isIP(address)
+  if (family === 0) return false
+  return !blocked.check(address, family === 4 ? "ipv4" : "ipv6")
+}
+
+class BlockedAddressError extends Error {
+  constructor(address: string) {
+    super(`Refusing to connect to ${address}`)
+  }
+}
+
+/**
+ * Resolves like `dns.lookup` but fails when any address is not public, so the
+ * check applies to the address the socket actually connects to.
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+) {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+    const refused = addresses.find((entry) => !isPublicAddress(entry.address))
+    if (refused) return callback(new BlockedAddressError(refused.address), [])
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+export interface PublicFetchOptions {
+  /** Responses larger than this are abandoned part-way. */
+  maxBytes: number
+  /** For the whole fetch, redirects included. */
+  timeoutMs: number
+  maxRedirects?: number
+  /** Content-Type prefix the response must have, e.g. `image/`. */
+  accept?: string
+}
+
+function get(url: URL, signal: AbortSignal, accept = "") {
+  const client = url.protocol === "https:" ? https : http
+  const headers = { accept: accept ? `${accept}*` : "*/*" }
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    client.get(url, { lookup: publicLookup, signal, headers }, resolve).on("error", reject)
+  })
+}
+
+async function readCapped(response: IncomingMessage, maxBytes: number) {
+  const chunks: Buffer[] = []
+  let total = 0
+  for await (const chunk of response) {
+    total += chunk.length
+    if (total > maxBytes) {
+      response.destroy()
+      return undefined
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Fetches a URL from the server for content a visitor supplied, e.g. a card
+ * photo. Only http(s) URLs on public addresses are fetched, and every
+ * redirect is checked again. Resolves to `undefined` on any refusal, error,
+ * timeout or oversized response.
+ */
+export async function fetchPublic(src: string, { maxBytes, timeoutMs, maxRedirects = 3, accept }: PublicFetchOptions) {
+  const signal = AbortSignal.timeout(timeoutMs)
+  let url: URL
+  try {
+    url = new URL(src)
+  } catch {
+    return undefined
+  }
+
+  for (let redirects = 0; redirects <= maxRedirects; redirects++) {
+    if (url.protocol !== "http:" && url.protocol !== "https:") return undefined
+    // Literal IPs skip the lookup, so they are checked here.
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1")
+    if (isIP(host) && !isPublicAddress(host)) return undefined
+
+    let response: IncomingMessage
+    try {
+      response = await get(url, signal, accept)
+    } catch {
+      return undefined
+    }
+
+    const status = response.statusCode ?? 0
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume()
+      try {
+        url = new URL(response.headers.location, url)
+      } catch {
+        return undefined
+      }
+      continue
+    }
+    const type = response.headers["content-type"] ?? ""
+    const length = Number(response.headers["content-length"] ?? 0)
+    if (status !== 200 || (accept && !type.startsWith(accept)) || length > maxBytes) {
+      response.destroy()
+      return undefined
+    }
+    try {
+      return await readCapped(response, maxBytes)
+    } catch {
+      return undefined
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,55 @@
+/**
+ * A small, safe subset of Markdown for text blocks. Authors write plain text;
+ * it is parsed into a tree the card renders as React elements, so nothing is
+ * ever injected as HTML.
+ *
+ * - Blank lines separate paragraphs.
+ * - Lines starting with "- " or "* " form a bulleted list.
+ * - `**bold**`, `*italic*` and `[label](https://…)` work inside both.
+ */
+
+import { SAFE_HREF } from "@/lib/card-profile"
+
+export type RichInline =
+  | { type: "text"; text: string }
+  | { type: "strong" | "em"; children: RichInline[] }
+  | { type: "link"; href: string; children: RichInline[] }
+
+export type RichBlock = { type: "paragraph"; children: RichInline[] } | { type: "list"; items: RichInline[][] }
+
+const LIST_ITEM = /^[-*]\s+/
+const INLINE = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/
+
+export function parseInline(text: string): RichInline[] {
+  const nodes: RichInline[] = []
+  let rest = text
+  while (rest) {
+    const match = INLINE.exec(rest)
+    if (!match) {
+      nodes.push({ type: "text", text: rest })
+      break
+    }
+    if (match.index > 0) nodes.push({ type: "text", text: rest.slice(0, match.index) })
+    const [whole, strong, em, label, href] = match
+    if (strong !== undefined) nodes.push({ type: "strong", children: parseInline(strong) })
+    else if (em !== undefined) nodes.push({ type: "em", children: parseInline(em) })
+    else if (SAFE_HREF.test(href)) nodes.push({ type: "link", href, children: parseInline(label) })
+    else nodes.push({ type: "text", text: whole })
+    rest = rest.slice(match.index + whole.length)
+  }
+  return nodes
+}
+
+export function parseRichText(source: string): RichBlock[] {
+  const blocks: RichBlock[] = []
+  for (const chunk of source.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+    const lines = chunk.split("\n").filter((line) => line.trim())
+    if (lines.length === 0) continue
+    if (lines.every((line) => LIST_ITEM.test(line.trim()))) {
+      blocks.push({ type: "list", items: lines.map((line) => parseInline(line.trim().replace(LIST_ITEM, ""))) })
+    } else {
+      blocks.push({ type: "paragraph", children: parseInline(lines.join(" ")) })
+    }
+  }
+  return blocks
+}
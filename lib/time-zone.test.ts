@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { addDays, weekdayOf, zonedParts, zonedTimeToInstant } from "@/lib/time-zone"
+
+const NEW_YORK = "America/New_York"
+
+const iso = (instant: number) => new Date(instant).toISOString()
+
+describe("zonedTimeToInstant", () => {
+  it("applies standard and daylight saving offsets", () => {
+    expect(iso(zonedTimeToInstant("2025-01-15", "09:00", NEW_YORK))).toBe("2025-01-15T14:00:00.000Z")
+    expect(iso(zonedTimeToInstant("2025-07-15", "09:00", NEW_YORK))).toBe("2025-07-15T13:00:00.000Z")
+  })
+
+  it("handles the March change to daylight saving time", () => {
+    expect(iso(zonedTimeToInstant("2025-03-09", "01:30", NEW_YORK))).toBe("2025-03-09T06:30:00.000Z")
+    expect(iso(zonedTimeToInstant("2025-03-09", "03:30", NEW_YORK))).toBe("2025-03-09T07:30:00.000Z")
+  })
+
+  it("moves times skipped in March an hour later", () => {
+    const instant = zonedTimeToInstant("2025-03-09", "02:30", NEW_YORK)
+    expect(iso(instant)).toBe("2025-03-09T07:30:00.000Z")
+    expect(zonedParts(instant, NEW_YORK).time).toBe("03:30")
+  })
+
+  it("resolves times repeated in November to their first occurrence", () => {
+    expect(iso(zonedTimeToInstant("2025-11-02", "00:30", NEW_YORK))).toBe("2025-11-02T04:30:00.000Z")
+    expect(iso(zonedTimeToInstant("2025-11-02", "01:30", NEW_YORK))).toBe("2025-11-02T05:30:00.000Z")
+    expect(iso(zonedTimeToInstant("2025-11-02", "02:30", NEW_YORK))).toBe("2025-11-02T07:30:00.000Z")
+  })
+
+  it("round-trips through zonedParts", () => {
+    const instant = zonedTimeToInstant("2025-11-02", "23:45", "Asia/Kolkata")
+    expect(zonedParts(instant, "Asia/Kolkata")).toMatchObject({ date: "2025-11-02", time: "23:45" })
+  })
+})
+
+describe("calendar dates", () => {
+  it("adds days across month and year ends", () => {
+    expect(addDays("2025-02-28", 1)).toBe("2025-03-01")
+    expect(addDays("2024-02-28", 1)).toBe("2024-02-29")
+    expect(addDays("2025-12-31", 1)).toBe("2026-01-01")
+    expect(addDays("2025-03-01", -1)).toBe("2025-02-28")
+  })
+
+  it("counts weekdays from Sunday", () => {
+    expect(weekdayOf("2025-03-02")).toBe(0)
+    expect(weekdayOf("2025-03-03")).toBe(1)
+    expect(weekdayOf("2025-03-08")).toBe(6)
+  })
+})
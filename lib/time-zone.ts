@@ -0,0 +1,79 @@
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isTimeZone(value: string) {
+  try {
+    formatterFor(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Every zone the runtime knows, for suggestions; empty where it cannot list them. */
+export function timeZoneNames(): string[] {
+  // Older TypeScript libs do not declare `supportedValuesOf` yet.
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] }
+  return intl.supportedValuesOf?.("timeZone") ?? []
+}
+
+/** The zone this browser or server runs in, e.g. `Europe/Berlin`. */
+export function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/** Wall-clock reading of an instant in a zone: `date` as YYYY-MM-DD and `time` as HH:MM. */
+export function zonedParts(instant: number, timeZone: string) {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(instant).map((part) => [part.type, part.value]))
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}`, second: parts.second }
+}
+
+/** Milliseconds the zone is ahead of UTC at an instant. */
+function offsetAt(instant: number, timeZone: string) {
+  const { date, time, second } = zonedParts(instant, timeZone)
+  const asUtc = Date.parse(`${date}T${time}:${second}Z`)
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * The instant a zone's clocks read `time` on `date`. Repeated times after
+ * clocks go back resolve to their first occurrence; times skipped when clocks
+ * go forward resolve to the moment an hour (or the jump's length) later.
+ */
+export function zonedTimeToInstant(date: string, time: string, timeZone: string) {
+  const wall = Date.parse(`${date}T${time}:00Z`)
+  // A day either side of any transition gives the offsets before and after it.
+  const candidates = [wall - offsetAt(wall - 86_400_000, timeZone), wall - offsetAt(wall + 86_400_000, timeZone)]
+  const matching = candidates.filter((instant) => {
+    const parts = zonedParts(instant, timeZone)
+    return parts.date === date && parts.time === time
+  })
+  return matching.length > 0 ? Math.min(...matching) : candidates[0]
+}
+
+/** Shifts a YYYY-MM-DD calendar date by whole days. */
+export function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10)
+}
+
+/** 0 for Sunday through 6 for Saturday, like `Date.getDay`. */
+export function weekdayOf(date: string) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { escapeText, foldLine, paramValue, splitEscaped, unescapeText } from "@/lib/vcard/encoding"
+
+describe("escapeText", () => {
+  it("escapes backslashes before the characters it escapes with them", () => {
+    expect(escapeText("a\\b,c;d")).toBe("a\\\\b\\,c\\;d")
+  })
+
+  it("turns every kind of line break into \\n", () => {
+    expect(escapeText("one\r\ntwo\rthree\nfour")).toBe("one\\ntwo\\nthree\\nfour")
+  })
+
+  it("is reversed by unescapeText", () => {
+    const value = "C:\\temp\\, then; more\nlines"
+    expect(unescapeText(escapeText(value))).toBe(value)
+  })
+})
+
+describe("splitEscaped", () => {
+  it("splits only on unescaped separators", () => {
+    expect(splitEscaped("Doe\\;Smith;Jane;;Dr.\\, Prof.;", ";")).toEqual(["Doe;Smith", "Jane", "", "Dr., Prof.", ""])
+  })
+})
+
+describe("paramValue", () => {
+  it("quotes values with separators and drops DQUOTE", () => {
+    expect(paramValue("work")).toBe("work")
+    expect(paramValue('x-"a:b"')).toBe('"x-a:b"')
+  })
+})
+
+describe("foldLine", () => {
+  const octets = (line: string) => new TextEncoder().encode(line).length
+
+  it("leaves lines of up to 75 octets alone", () => {
+    const line = `NOTE:${"x".repeat(70)}`
+    expect(foldLine(line)).toBe(line)
+  })
+
+  it("folds with CRLF and a space, counting octets rather than characters", () => {
+    const line = `NOTE:${"é".repeat(60)}`
+    const folded = foldLine(line)
+    const parts = folded.split("\r\n")
+    expect(parts.length).toBeGreaterThan(1)
+    expect(parts.slice(1).every((part) => part.startsWith(" "))).toBe(true)
+    for (const part of parts) expect(octets(part)).toBeLessThanOrEqual(75)
+    expect(parts.map((part, index) => (index ? part.slice(1) : part)).join("")).toBe(line)
+  })
+
+  it("never splits a surrogate pair", () => {
+    const folded = foldLine(`NOTE:${"👋".repeat(40)}`)
+    for (const part of folded.split("\r\n")) expect(part).not.toMatch(/[\uD800-\uDBFF](?![\uDC00-\uDFFF])/)
+  })
+})
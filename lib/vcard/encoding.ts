@@ -0,0 +1,92 @@
+export const CRLF = "\r\n"
+
+/** RFC 6350 §3.2: content lines SHOULD NOT be longer than 75 octets. */
+const MAX_LINE_OCTETS = 75
+
+const encoder = new TextEncoder()
+
+/** Escapes a TEXT value (RFC 6350 §3.4, RFC 2426 §4). */
+export function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;")
+    .replace(/\r\n|\r|\n/g, "\\n")
+}
+
+/**
+ * URI values are written verbatim, so control characters are dropped: a CR or
+ * LF would otherwise end the line and start a property of the value's choosing.
+ */
+export function uriValue(value: string) {
+  return value.replace(/[\u0000-\u001f\u007f]/g, "")
+}
+
+/** Joins structured components such as N or ADR, escaping each one. */
+export function structuredValue(components: string[]) {
+  return components.map(escapeText).join(";")
+}
+
+/** Reverses `escapeText`; also accepts the upper-case `\N` some exporters emit. */
+export function unescapeText(value: string) {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char))
+}
+
+/** Splits on separators that are not backslash-escaped, unescaping each part. */
+export function splitEscaped(value: string, separator: ";" | ",") {
+  const parts: string[] = []
+  let current = ""
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index]
+    if (char === "\\" && index + 1 < value.length) {
+      current += char + value[index + 1]
+      index++
+    } else if (char === separator) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts.map(unescapeText)
+}
+
+/**
+ * Parameter values cannot be escaped, only quoted; characters that would end
+ * the parameter force a DQUOTE-wrapped value and DQUOTE itself is dropped.
+ */
+export function paramValue(value: string) {
+  const cleaned = value.replace(/["\r\n]/g, "")
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned
+}
+
+/**
+ * Folds a content line at 75 octets by inserting CRLF followed by a single
+ * space. Splits only between code points so multi-byte UTF-8 sequences stay
+ * intact.
+ */
+export function foldLine(line: string) {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line
+
+  const parts: string[] = []
+  let current = ""
+  let currentOctets = 0
+  // Continuation lines spend one octet on the leading space.
+  let limit = MAX_LINE_OCTETS
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    if (currentOctets + octets > limit) {
+      parts.push(current)
+      current = ""
+      currentOctets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    current += char
+    currentOctets += octets
+  }
+  parts.push(current)
+
+  return parts.join(`${CRLF} `)
+}
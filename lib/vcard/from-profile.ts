@@ -0,0 +1,67 @@
+import type { CardProfile, ContactMethod } from "@/lib/card-profile"
+import { getContactChannel, resolveContactAction } from "@/lib/contact-methods"
+import type { VCard, VCardName, VCardTyped } from "@/lib/vcard/types"
+
+function nameFor(identity: CardProfile["identity"]): VCardName {
+  let given = identity.givenName ?? ""
+  let family = identity.familyName ?? ""
+  if (!given && !family) {
+    const parts = identity.name.trim().split(/\s+/)
+    family = parts.length > 1 ? parts.pop()! : ""
+    given = parts.join(" ")
+  }
+  return { family, given, additional: "", prefix: "", suffix: "" }
+}
+
+function typed(contact: ContactMethod, fallback: string[] = []): VCardTyped<string> {
+  return { value: contact.value, types: contact.types ?? fallback }
+}
+
+/** Maps a card profile onto the vCard model used by `serializeVCard`. */
+export function profileToVCard(profile: CardProfile): VCard {
+  const { identity } = profile
+  // Hidden contacts are off the card, so they stay out of the saved contact too.
+  const contacts = profile.contacts.filter((contact) => !contact.hidden)
+
+  const phones: VCardTyped<string>[] = []
+  const seenNumbers = new Set<string>()
+  for (const contact of contacts) {
+    if (contact.kind !== "message" && contact.kind !== "whatsapp") continue
+    // SMS and WhatsApp usually share a number; list it once.
+    const digits = contact.value.replace(/\D/g, "")
+    if (seenNumbers.has(digits)) continue
+    seenNumbers.add(digits)
+    phones.push(typed(contact, ["cell"]))
+  }
+
+  const linkedinProfiles = contacts.filter((contact) => contact.kind === "linkedin")
+  const socialProfiles = contacts.flatMap((contact) => {
+    const { socialProfile } = getContactChannel(contact.kind)
+    return socialProfile ? [{ type: socialProfile, value: resolveContactAction(contact).href }] : []
+  })
+
+  return {
+    uid: profile.id ? `urn:uuid:${profile.id}` : undefined,
+    formattedName: identity.name,
+    name: nameFor(identity),
+    organization: identity.organization ? [identity.organization] : undefined,
+    title: identity.title || undefined,
+    note: identity.note || undefined,
+    phones,
+    emails: contacts.filter((contact) => contact.kind === "email").map((contact) => typed(contact)),
+    urls: [
+      ...contacts.filter((contact) => contact.kind === "website").map((contact) => typed(contact)),
+      // Android contact apps ignore X-SOCIALPROFILE, so keep LinkedIn as a URL too.
+      ...linkedinProfiles.map((contact) => ({ value: resolveContactAction(contact).href, types: [] })),
+    ],
+    addresses: profile.addresses.map(({ types, ...address }) => ({
+      value: { poBox: "", extended: "", ...address },
+      types: types ?? [],
+    })),
+    socialProfiles,
+  }
+}
+
+export function vcardFileName(name: string) {
+  return `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "contact"}.vcf`
+}
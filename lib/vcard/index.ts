@@ -0,0 +1,6 @@
+export * from "@/lib/vcard/types"
+export { escapeText, foldLine } from "@/lib/vcard/encoding"
+export { serializeVCard, type SerializeVCardOptions } from "@/lib/vcard/serialize"
+export { profileToVCard, vcardFileName } from "@/lib/vcard/from-profile"
+export { parseVCards, parseVCardProperties, readVCard, type VCardProperty, type ReadVCardResult } from "@/lib/vcard/parse"
+export { vcardToProfile, type UnmappedField, type VCardImport } from "@/lib/vcard/to-profile"
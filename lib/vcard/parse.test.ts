@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+import { parseVCards } from "@/lib/vcard/parse"
+
+const pixel = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+
+function read(...lines: string[]) {
+  const [result] = parseVCards(["BEGIN:VCARD", "VERSION:2.1", "N:Doe;Jane", ...lines, "END:VCARD", ""].join("\r\n"))
+  return result
+}
+
+describe("parseVCards with vCard 2.1 bare parameters", () => {
+  it("treats bare names as types", () => {
+    const { card } = read("TEL;WORK;VOICE;PREF:+1 555 0100")
+    expect(card.phones).toEqual([{ value: "+1 555 0100", types: ["work"], pref: true }])
+  })
+
+  it("decodes bare QUOTED-PRINTABLE values, soft line breaks included", () => {
+    const { card } = read("NOTE;CHARSET=UTF-8;QUOTED-PRINTABLE:caf=C3=A9 au =", "lait")
+    expect(card.note).toBe("café au lait")
+  })
+
+  it("reads bare BASE64 photos with the image type alongside", () => {
+    const { card, unsupported } = read(`PHOTO;PNG;BASE64:${pixel.slice(0, 40)}`, ` ${pixel.slice(40)}`, "")
+    expect(card.photo).toEqual({ mediaType: "image/png", data: pixel })
+    expect(unsupported).toEqual([])
+  })
+
+  it("reads bare 8BIT values as they are", () => {
+    const { card } = read("TITLE;8BIT:Chef de cuisine")
+    expect(card.title).toBe("Chef de cuisine")
+  })
+})
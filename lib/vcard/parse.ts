@@ -0,0 +1,248 @@
+import { splitEscaped, unescapeText } from "@/lib/vcard/encoding"
+import type { VCard, VCardAddress, VCardMedia, VCardTyped } from "@/lib/vcard/types"
+
+/** A single unfolded content line with its value already transfer-decoded. */
+export interface VCardProperty {
+  group?: string
+  /** Upper-cased property name, e.g. `TEL`. */
+  name: string
+  /** Upper-cased parameter names mapped to their (unquoted) values. */
+  params: Record<string, string[]>
+  value: string
+}
+
+export interface ReadVCardResult {
+  card: VCard
+  /** Properties the vCard model has no slot for, in document order. */
+  unsupported: VCardProperty[]
+}
+
+/** vCard 2.1 lets encodings stand alone, e.g. `PHOTO;JPEG;BASE64:`. */
+const BARE_ENCODINGS = new Set(["QUOTED-PRINTABLE", "BASE64", "8BIT"])
+
+/** Properties that carry no contact data worth reporting when skipped. */
+const STRUCTURAL_PROPERTIES = new Set(["BEGIN", "END", "VERSION", "PRODID", "REV", "KIND", "SOURCE", "CLASS"])
+
+function isQuotedPrintable(line: string) {
+  const head = line.slice(0, line.indexOf(":"))
+  return /(^|;)(ENCODING=)?QUOTED-PRINTABLE(;|$)/i.test(head)
+}
+
+/**
+ * Joins folded lines (continuations start with a space or tab) and the
+ * soft line breaks vCard 2.1 writers leave in quoted-printable values.
+ */
+function unfold(text: string) {
+  const lines: string[] = []
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const last = lines.length - 1
+    if (last >= 0 && /^[ \t]/.test(line)) {
+      lines[last] += line.slice(1)
+    } else if (last >= 0 && lines[last].endsWith("=") && isQuotedPrintable(lines[last])) {
+      lines[last] = lines[last].slice(0, -1) + line
+    } else {
+      lines.push(line)
+    }
+  }
+  return lines.filter((line) => line.trim().length > 0)
+}
+
+/** Splits on `separator` outside of DQUOTE-quoted sections. */
+function splitUnquoted(value: string, separator: string, limit = Infinity) {
+  const parts: string[] = []
+  let current = ""
+  let quoted = false
+  for (const char of value) {
+    if (char === '"') quoted = !quoted
+    if (char === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts
+}
+
+function decodeQuotedPrintable(value: string, charset: string) {
+  const bytes: number[] = []
+  for (let index = 0; index < value.length; index++) {
+    const hex = value.slice(index + 1, index + 3)
+    if (value[index] === "=" && /^[0-9A-F]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16))
+      index += 2
+    } else {
+      bytes.push(value.charCodeAt(index) & 0xff)
+    }
+  }
+  let decoder: TextDecoder
+  try {
+    decoder = new TextDecoder(charset)
+  } catch {
+    decoder = new TextDecoder("utf-8")
+  }
+  return decoder.decode(new Uint8Array(bytes))
+}
+
+function parseLine(line: string): VCardProperty | undefined {
+  if (!line.includes(":")) return undefined
+  const [head, value = ""] = splitUnquoted(line, ":", 2)
+
+  const [qualifiedName, ...rawParams] = splitUnquoted(head, ";")
+  const dot = qualifiedName.lastIndexOf(".")
+  const group = dot >= 0 ? qualifiedName.slice(0, dot) : undefined
+  const name = qualifiedName.slice(dot + 1).toUpperCase()
+
+  const params: Record<string, string[]> = {}
+  for (const rawParam of rawParams) {
+    const [rawKey, rawValue] = splitUnquoted(rawParam, "=", 2)
+    // vCard 2.1 allows bare parameters such as `TEL;WORK;VOICE:`; all but encodings are types.
+    const bareKey = BARE_ENCODINGS.has(rawKey.toUpperCase()) ? "ENCODING" : "TYPE"
+    const key = rawValue === undefined ? bareKey : rawKey.toUpperCase()
+    // Quoted lists such as TYPE="work,voice" are split once the quotes are gone.
+    const values = (rawValue ?? rawKey).replace(/"/g, "").split(",")
+    params[key] = [...(params[key] ?? []), ...values]
+  }
+
+  const encoding = params.ENCODING?.[0]?.toUpperCase()
+  const decoded =
+    encoding === "QUOTED-PRINTABLE" ? decodeQuotedPrintable(value, params.CHARSET?.[0] ?? "utf-8") : value
+
+  return { group, name, params, value: decoded }
+}
+
+/** Splits a document into vCards, each a list of unfolded, decoded properties. */
+export function parseVCardProperties(text: string): VCardProperty[][] {
+  const cards: VCardProperty[][] = []
+  let current: VCardProperty[] | undefined
+
+  for (const line of unfold(text)) {
+    const property = parseLine(line)
+    if (!property) continue
+
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VCARD") {
+      current = []
+    } else if (property.name === "END" && property.value.toUpperCase() === "VCARD") {
+      if (current) cards.push(current)
+      current = undefined
+    } else {
+      current?.push(property)
+    }
+  }
+  return cards
+}
+
+function typesOf(property: VCardProperty) {
+  const types = (property.params.TYPE ?? []).map((type) => type.toLowerCase())
+  const pref = types.includes("pref") || property.params.PREF !== undefined
+  return {
+    types: types.filter((type) => type !== "pref" && type !== "internet" && type !== "voice"),
+    pref: pref || undefined,
+  }
+}
+
+function typed<T>(property: VCardProperty, value: T): VCardTyped<T> {
+  return { value, ...typesOf(property) }
+}
+
+function mediaOf(property: VCardProperty): VCardMedia | undefined {
+  const value = property.value.replace(/\s+/g, "")
+  const dataUri = /^data:([^;,]+)(;base64)?,(.*)$/i.exec(value)
+  if (dataUri) {
+    return dataUri[2] ? { mediaType: dataUri[1], data: dataUri[3] } : undefined
+  }
+
+  const encoding = property.params.ENCODING?.[0]?.toUpperCase()
+  if (encoding === "B" || encoding === "BASE64") {
+    const subtype = (property.params.TYPE?.[0] ?? "jpeg").toLowerCase().replace(/^image\//, "")
+    return { mediaType: `image/${subtype === "jpg" ? "jpeg" : subtype}`, data: value }
+  }
+
+  return /^https?:\/\//i.test(value) ? { uri: value } : undefined
+}
+
+function addressOf(value: string): VCardAddress {
+  const [poBox = "", extended = "", street = "", locality = "", region = "", postalCode = "", country = ""] =
+    splitEscaped(value, ";")
+  return { poBox, extended, street, locality, region, postalCode, country }
+}
+
+/** Reads the properties of one vCard into the model `serializeVCard` writes. */
+export function readVCard(properties: VCardProperty[]): ReadVCardResult {
+  const card: VCard = {
+    formattedName: "",
+    name: { family: "", given: "", additional: "", prefix: "", suffix: "" },
+    phones: [],
+    emails: [],
+    urls: [],
+    addresses: [],
+    socialProfiles: [],
+  }
+  const unsupported: VCardProperty[] = []
+
+  for (const property of properties) {
+    switch (property.name) {
+      case "FN":
+        card.formattedName = unescapeText(property.value)
+        break
+      case "N": {
+        const [family = "", given = "", additional = "", prefix = "", suffix = ""] = splitEscaped(property.value, ";")
+        card.name = { family, given, additional, prefix, suffix }
+        break
+      }
+      case "ORG":
+        card.organization = splitEscaped(property.value, ";").filter(Boolean)
+        break
+      case "TITLE":
+        card.title = unescapeText(property.value)
+        break
+      case "NOTE":
+        card.note = unescapeText(property.value)
+        break
+      case "UID":
+        card.uid = property.value
+        break
+      case "TEL":
+        card.phones.push(typed(property, unescapeText(property.value).replace(/^tel:/i, "")))
+        break
+      case "EMAIL":
+        card.emails.push(typed(property, unescapeText(property.value).replace(/^mailto:/i, "")))
+        break
+      case "URL":
+        // Some iOS exports escape the scheme colon as `\:`.
+        card.urls.push(typed(property, unescapeText(property.value).replace(/\\:/g, ":")))
+        break
+      case "ADR":
+        card.addresses.push(typed(property, addressOf(property.value)))
+        break
+      case "X-SOCIALPROFILE":
+        card.socialProfiles.push({ type: property.params.TYPE?.[0]?.toLowerCase() ?? "", value: property.value })
+        break
+      case "PHOTO":
+      case "LOGO": {
+        const media = mediaOf(property)
+        if (media) {
+          card[property.name === "PHOTO" ? "photo" : "logo"] = media
+        } else {
+          unsupported.push(property)
+        }
+        break
+      }
+      default:
+        if (!STRUCTURAL_PROPERTIES.has(property.name)) unsupported.push(property)
+    }
+  }
+
+  if (!card.formattedName) {
+    const { prefix, given, additional, family, suffix } = card.name
+    card.formattedName = [prefix, given, additional, family, suffix].filter(Boolean).join(" ")
+  }
+
+  return { card, unsupported }
+}
+
+/** Parses every vCard in a `.vcf` document (3.0, 4.0 and most 2.1 exports). */
+export function parseVCards(text: string): ReadVCardResult[] {
+  return parseVCardProperties(text).map(readVCard)
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest"
+import { parseVCards } from "@/lib/vcard/parse"
+import { serializeVCard } from "@/lib/vcard/serialize"
+import type { VCard, VCardVersion } from "@/lib/vcard/types"
+
+const octets = (line: string) => new TextEncoder().encode(line).length
+
+const card: VCard = {
+  uid: "urn:uuid:0f8b6a52-3c4e-4d1a-9b7e-2a5c8d9e1f03",
+  formattedName: "Jane Doe, PhD",
+  name: { family: "Doe", given: "Jane", additional: "Q.", prefix: "Dr.", suffix: "PhD" },
+  organization: ["Acme; Sons", "R&D, Labs"],
+  title: "Head of Back\\slashes",
+  note: "Commas, semicolons; and back\\slashes\nsurvive a second line",
+  phones: [
+    { value: "+1-555-0100", types: ["cell"], pref: true },
+    { value: "+1-555-0199", types: ["work"] },
+  ],
+  emails: [
+    { value: "jane@example.com", types: ["work"], pref: true },
+    { value: "jane.doe@example.org", types: ["home"] },
+  ],
+  urls: [
+    { value: "https://example.com/jane", types: ["work"], pref: true },
+    { value: "https://blog.example.org/", types: ["home"] },
+  ],
+  addresses: [
+    {
+      value: {
+        poBox: "",
+        extended: "Suite 5, Floor 2",
+        street: "1 Main St; Rear",
+        locality: "Springfield",
+        region: "IL",
+        postalCode: "62701",
+        country: "USA",
+      },
+      types: ["work"],
+      pref: true,
+    },
+  ],
+  socialProfiles: [{ type: "linkedin", value: "https://www.linkedin.com/in/janedoe" }],
+  photo: { mediaType: "image/png", data: "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk" },
+}
+
+function roundTrip(input: VCard, version: VCardVersion) {
+  const text = serializeVCard(input, { version })
+  const [result] = parseVCards(text)
+  return { text, ...result }
+}
+
+describe.each<VCardVersion>(["3.0", "4.0"])("serializeVCard %s", (version) => {
+  it("reads back every field it writes", () => {
+    const { card: parsed, unsupported } = roundTrip(card, version)
+    expect(parsed).toEqual(card)
+    expect(unsupported).toEqual([])
+  })
+
+  it("ends every line with CRLF", () => {
+    const { text } = roundTrip(card, version)
+    expect(text.endsWith("\r\n")).toBe(true)
+    expect(text.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/)
+  })
+
+  it("escapes commas, semicolons and backslashes in text values", () => {
+    const { text } = roundTrip(card, version)
+    expect(text).toContain("FN:Jane Doe\\, PhD\r\n")
+    expect(text).toContain("N:Doe;Jane;Q.;Dr.;PhD\r\n")
+    expect(text).toContain("ORG:Acme\\; Sons;R&D\\, Labs\r\n")
+    expect(text).toContain("TITLE:Head of Back\\\\slashes\r\n")
+    expect(text).toContain("NOTE:Commas\\, semicolons\\; and back\\\\slashes\\nsurvive a second line\r\n")
+  })
+
+  it("folds long multi-byte lines at 75 octets without splitting characters", () => {
+    const note = "Grüße aus Köln — 東京でお会いしましょう 👋 ".repeat(6).trim()
+    const { text, card: parsed } = roundTrip({ ...card, note }, version)
+    const lines = text.split("\r\n").slice(0, -1)
+    expect(lines.some((line) => line.startsWith(" "))).toBe(true)
+    for (const line of lines) expect(octets(line)).toBeLessThanOrEqual(75)
+    expect(text).not.toContain("�")
+    expect(parsed.note).toBe(note)
+  })
+
+  it("marks the preferred TEL, EMAIL, URL and ADR", () => {
+    const { text } = roundTrip(card, version)
+    const pref = version === "3.0" ? /;TYPE=[^:;]*PREF/ : /;PREF=1/
+    for (const name of ["TEL", "EMAIL", "URL", "ADR"]) {
+      const lines = text.split("\r\n").filter((line) => line.startsWith(`${name};`))
+      expect(lines.filter((line) => pref.test(line))).toHaveLength(1)
+    }
+  })
+
+  it("drops line breaks that would inject properties through URI values", () => {
+    const { text, card: parsed } = roundTrip(
+      {
+        ...card,
+        urls: [{ value: "https://example.com/\r\nTEL:+1-555-0666", types: [] }],
+        socialProfiles: [{ type: "linkedin", value: "https://www.linkedin.com/in/jane\nNOTE:x" }],
+        photo: { uri: "https://example.com/a.jpg\r\nEMAIL:evil@example.com" },
+        uid: "urn:uuid:1\rFN:Evil",
+      },
+      version,
+    )
+    expect(text).toContain("URL:https://example.com/TEL:+1-555-0666\r\n")
+    expect(parsed.phones.map((phone) => phone.value)).toEqual(["+1-555-0100", "+1-555-0199"])
+    expect(parsed.emails.map((email) => email.value)).toEqual(["jane@example.com", "jane.doe@example.org"])
+    expect(parsed.formattedName).toBe(card.formattedName)
+    expect(parsed.note).toBe(card.note)
+    expect(parsed.photo).toEqual({ uri: "https://example.com/a.jpgEMAIL:evil@example.com" })
+  })
+
+  it("keeps X-SOCIALPROFILE and UID values verbatim", () => {
+    const { text } = roundTrip(card, version)
+    expect(text).toContain("X-SOCIALPROFILE;TYPE=linkedin:https://www.linkedin.com/in/janedoe\r\n")
+    expect(text).toContain(`UID:${card.uid}\r\n`)
+  })
+})
+
+describe("serializeVCard versions", () => {
+  it("writes 3.0 types in upper case with TYPE=PREF", () => {
+    const text = serializeVCard(card, { version: "3.0" })
+    expect(text).toContain("TEL;TYPE=CELL,PREF:+1-555-0100\r\n")
+    expect(text).toContain("EMAIL;TYPE=INTERNET,WORK,PREF:jane@example.com\r\n")
+  })
+
+  it("writes 4.0 tel: URIs with lower-case types and a PREF parameter", () => {
+    const text = serializeVCard(card, { version: "4.0" })
+    expect(text).toContain("TEL;VALUE=uri;TYPE=cell;PREF=1:tel:+1-555-0100\r\n")
+    expect(text).toContain("EMAIL;TYPE=work;PREF=1:jane@example.com\r\n")
+  })
+})
@@ -0,0 +1,112 @@
+import { CRLF, escapeText, foldLine, paramValue, structuredValue, uriValue } from "@/lib/vcard/encoding"
+import type { VCard, VCardAddress, VCardMedia, VCardTyped, VCardVersion } from "@/lib/vcard/types"
+
+type Params = [name: string, value: string][]
+
+export interface SerializeVCardOptions {
+  version?: VCardVersion
+}
+
+function contentLine(name: string, params: Params, value: string) {
+  const head = [name, ...params.map(([key, val]) => `${key}=${val}`)].join(";")
+  return foldLine(`${head}:${value}`)
+}
+
+/**
+ * vCard 3.0 spells preference as `TYPE=PREF` and upper-cases type names by
+ * convention; 4.0 uses a numeric `PREF` parameter and lower-case types.
+ */
+function typeParams(entry: VCardTyped<unknown>, version: VCardVersion, extraTypes: string[] = []): Params {
+  const types = [...extraTypes, ...entry.types].map((type) => (version === "3.0" ? type.toUpperCase() : type.toLowerCase()))
+  if (entry.pref && version === "3.0") types.push("PREF")
+
+  const params: Params = []
+  if (types.length > 0) params.push(["TYPE", types.map(paramValue).join(",")])
+  if (entry.pref && version === "4.0") params.push(["PREF", "1"])
+  return params
+}
+
+function addressComponents(address: VCardAddress) {
+  return [
+    address.poBox,
+    address.extended,
+    address.street,
+    address.locality,
+    address.region,
+    address.postalCode,
+    address.country,
+  ]
+}
+
+/**
+ * 4.0 embeds media as a data: URI; 3.0 uses the b encoding with the image
+ * subtype as TYPE.
+ */
+function mediaLine(name: string, media: VCardMedia, version: VCardVersion) {
+  if ("uri" in media) {
+    return contentLine(name, version === "3.0" ? [["VALUE", "uri"]] : [], uriValue(media.uri))
+  }
+  if (version === "4.0") {
+    return contentLine(name, [], `data:${media.mediaType};base64,${media.data}`)
+  }
+  const subtype = media.mediaType.split("/")[1]?.toUpperCase() ?? "JPEG"
+  return contentLine(
+    name,
+    [
+      ["ENCODING", "b"],
+      ["TYPE", paramValue(subtype)],
+    ],
+    media.data,
+  )
+}
+
+/** Serializes a vCard with CRLF line endings, escaping and line folding. */
+export function serializeVCard(card: VCard, { version = "3.0" }: SerializeVCardOptions = {}) {
+  const lines: string[] = ["BEGIN:VCARD", `VERSION:${version}`]
+
+  if (version === "4.0") lines.push("KIND:individual")
+  lines.push(contentLine("FN", [], escapeText(card.formattedName)))
+
+  const { family, given, additional, prefix, suffix } = card.name
+  lines.push(contentLine("N", [], structuredValue([family, given, additional, prefix, suffix])))
+
+  if (card.organization?.length) {
+    lines.push(contentLine("ORG", [], structuredValue(card.organization)))
+  }
+  if (card.title) lines.push(contentLine("TITLE", [], escapeText(card.title)))
+
+  for (const phone of card.phones) {
+    if (version === "4.0") {
+      const uri = `tel:${phone.value.replace(/[^\d+\-().]/g, "")}`
+      lines.push(contentLine("TEL", [["VALUE", "uri"], ...typeParams(phone, version)], uri))
+    } else {
+      lines.push(contentLine("TEL", typeParams(phone, version), escapeText(phone.value)))
+    }
+  }
+
+  for (const email of card.emails) {
+    const params = typeParams(email, version, version === "3.0" ? ["internet"] : [])
+    lines.push(contentLine("EMAIL", params, escapeText(email.value)))
+  }
+
+  for (const address of card.addresses) {
+    lines.push(contentLine("ADR", typeParams(address, version), structuredValue(addressComponents(address.value))))
+  }
+
+  // URL is a URI value type, so it is emitted verbatim rather than TEXT-escaped.
+  for (const url of card.urls) {
+    lines.push(contentLine("URL", typeParams(url, version), uriValue(url.value)))
+  }
+
+  for (const profile of card.socialProfiles) {
+    lines.push(contentLine("X-SOCIALPROFILE", [["TYPE", paramValue(profile.type.toLowerCase())]], uriValue(profile.value)))
+  }
+
+  if (card.note) lines.push(contentLine("NOTE", [], escapeText(card.note)))
+  if (card.photo) lines.push(mediaLine("PHOTO", card.photo, version))
+  if (card.logo) lines.push(mediaLine("LOGO", card.logo, version))
+  if (card.uid) lines.push(contentLine("UID", [], uriValue(card.uid)))
+
+  lines.push("END:VCARD")
+  return lines.join(CRLF) + CRLF
+}
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { loadVCardMedia } from "@/lib/vcard/server-media"
+
+const options = { size: 16, fit: "cover", mediaType: "image/png" } as const
+
+// A 1×1 transparent PNG.
+const pixel =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="
+
+describe("loadVCardMedia", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("refuses remote images on private addresses without connecting", async () => {
+    await expect(loadVCardMedia("http://169.254.169.254/latest/meta-data", options)).resolves.toBeUndefined()
+    await expect(loadVCardMedia("http://localhost:3000/avatar.png", options)).resolves.toBeUndefined()
+  })
+
+  it("resizes data: URIs and reuses the result", async () => {
+    const media = loadVCardMedia(pixel, options)
+    expect(loadVCardMedia(pixel, options)).toBe(media)
+    await expect(media).resolves.toMatchObject({ mediaType: "image/png" })
+  })
+
+  it("skips data: URIs over the size limit", async () => {
+    const huge = `data:image/png;base64,${"A".repeat(6 * 1024 * 1024)}`
+    await expect(loadVCardMedia(huge, options)).resolves.toBeUndefined()
+  })
+
+  it("reads site paths from public/ only", async () => {
+    await expect(loadVCardMedia("/placeholder-logo.png", options)).resolves.toMatchObject({ mediaType: "image/png" })
+    await expect(loadVCardMedia("/../package.json", options)).resolves.toBeUndefined()
+    await expect(loadVCardMedia("/%2e%2e/package.json", options)).resolves.toBeUndefined()
+    await expect(loadVCardMedia("file:///etc/passwd", options)).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,105 @@
+import { createHash } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+import sharp from "sharp"
+import { fetchPublic } from "@/lib/public-fetch"
+import type { VCardMedia } from "@/lib/vcard/types"
+
+/** Address books crop to a square and rarely display above 256px. */
+export const PHOTO_SIZE = 256
+export const LOGO_SIZE = 256
+
+/** Larger sources are skipped rather than decoded; 4 MB matches the save limit for inline photos. */
+const MAX_SOURCE_BYTES = 4 * 1024 * 1024
+const FETCH_TIMEOUT_MS = 5000
+const MAX_CACHED = 100
+/** Remote images can change, so resized copies are refreshed after this long. */
+const CACHE_TTL_MS = 10 * 60 * 1000
+
+export interface LoadVCardMediaOptions {
+  size: number
+  /** `cover` crops to a square (faces); `contain` letterboxes (logos). */
+  fit: "cover" | "contain"
+  mediaType: "image/jpeg" | "image/png"
+}
+
+const publicDir = path.join(process.cwd(), "public")
+
+interface CachedMedia {
+  media: Promise<VCardMedia | undefined>
+  expires: number
+}
+
+/** Resized images by source and options, oldest first, so repeat downloads skip the fetch and sharp. */
+const cache = new Map<string, CachedMedia>()
+
+/**
+ * Reads an image the server may embed: an inline `data:` URI, a public
+ * http(s) URL or a file under public/.
+ */
+async function readSource(src: string): Promise<Buffer | undefined> {
+  if (/^https?:\/\//i.test(src)) {
+    return fetchPublic(src, { maxBytes: MAX_SOURCE_BYTES, timeoutMs: FETCH_TIMEOUT_MS, accept: "image/" })
+  }
+
+  if (src.startsWith("data:")) {
+    const [, data] = src.split(",", 2)
+    if (!data || (data.length * 3) / 4 > MAX_SOURCE_BYTES) return undefined
+    return Buffer.from(data, "base64")
+  }
+
+  // Site-relative paths such as `/placeholder.svg?height=128` live in public/.
+  const pathname = decodeURIComponent(new URL(src, "http://localhost").pathname)
+  const file = path.join(publicDir, pathname)
+  if (!file.startsWith(publicDir + path.sep)) return undefined
+
+  const handle = await fs.open(file, "r")
+  try {
+    const { size } = await handle.stat()
+    if (size > MAX_SOURCE_BYTES) return undefined
+    const buffer = Buffer.alloc(size)
+    const { bytesRead } = await handle.read(buffer, 0, size, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+async function resize(src: string, { size, fit, mediaType }: LoadVCardMediaOptions): Promise<VCardMedia | undefined> {
+  try {
+    const source = await readSource(src)
+    if (!source) return undefined
+
+    let image = sharp(source).resize(size, size, {
+      fit,
+      background: mediaType === "image/jpeg" ? "#ffffff" : { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    // JPEG has no alpha channel; flatten onto white so transparency does not turn black.
+    image = mediaType === "image/jpeg" ? image.flatten({ background: "#ffffff" }).jpeg({ quality: 85 }) : image.png()
+
+    const data = await image.toBuffer()
+    return { mediaType, data: data.toString("base64") }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Loads a card image, resizes it and returns it as base64 ready for a PHOTO
+ * or LOGO property; most address books ignore photos given only by URI.
+ * Resolves to `undefined` when the image is missing, refused, too large or
+ * unreadable, so a broken picture never blocks saving the contact.
+ */
+export function loadVCardMedia(src: string, options: LoadVCardMediaOptions): Promise<VCardMedia | undefined> {
+  const source = src.startsWith("data:") ? createHash("sha256").update(src).digest("base64url") : src
+  const key = [source, options.size, options.fit, options.mediaType].join("|")
+  const now = Date.now()
+  const cached = cache.get(key)
+  if (cached && cached.expires > now) return cached.media
+
+  const media = resize(src, options)
+  cache.delete(key)
+  cache.set(key, { media, expires: now + CACHE_TTL_MS })
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!)
+  return media
+}
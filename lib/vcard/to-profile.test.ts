@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { cardProfileSchema } from "@/lib/card-profile"
+import { parseVCards } from "@/lib/vcard/parse"
+import { vcardToProfile } from "@/lib/vcard/to-profile"
+
+function importVCard(...lines: string[]) {
+  const [result] = parseVCards(["BEGIN:VCARD", "VERSION:3.0", "FN:Jane Doe", "N:Doe;Jane;;;", ...lines, "END:VCARD"].join("\r\n"))
+  return vcardToProfile(result)
+}
+
+describe("vcardToProfile", () => {
+  it("maps social profiles onto their channels", () => {
+    const { profile, unmapped } = importVCard(
+      "X-SOCIALPROFILE;type=twitter:https://twitter.com/janed",
+      "URL:https://www.linkedin.com/in/janedoe",
+    )
+    expect(profile.contacts.map(({ kind, value }) => [kind, value])).toEqual([
+      ["x", "https://twitter.com/janed"],
+      ["linkedin", "https://www.linkedin.com/in/janedoe"],
+    ])
+    expect(unmapped).toEqual([])
+  })
+
+  it("reports contacts the card could not link to instead of importing them", () => {
+    const { profile, unmapped } = importVCard(
+      "X-SOCIALPROFILE;type=twitter:x-apple:janed",
+      "EMAIL;TYPE=INTERNET:not-an-email",
+      "TEL;TYPE=CELL:+1 555 0100",
+    )
+    expect(profile.contacts.map(({ kind }) => kind)).toEqual(["message"])
+    expect(unmapped).toEqual([
+      { property: "EMAIL", value: "not-an-email", reason: "Not a valid Email contact" },
+      { property: "X-SOCIALPROFILE", value: "x-apple:janed", reason: "Not a valid X contact" },
+    ])
+    expect(cardProfileSchema.safeParse(profile).success).toBe(true)
+  })
+})
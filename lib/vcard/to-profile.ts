@@ -0,0 +1,129 @@
+import { createCardProfile, formatAddress, type CardProfile, type ContactMethod } from "@/lib/card-profile"
+import { channelForSocialProfile, getContactChannel } from "@/lib/contact-methods"
+import type { ReadVCardResult } from "@/lib/vcard/parse"
+import type { VCardMedia } from "@/lib/vcard/types"
+
+export interface UnmappedField {
+  property: string
+  value: string
+  reason: string
+}
+
+export interface VCardImport {
+  profile: CardProfile
+  unmapped: UnmappedField[]
+}
+
+const UUID_URN = /^urn:uuid:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i
+const NON_MESSAGING_PHONE_TYPES = ["fax", "pager"]
+
+function mediaSrc(media: VCardMedia) {
+  return "uri" in media ? media.uri : `data:${media.mediaType};base64,${media.data}`
+}
+
+function truncate(value: string, length = 80) {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value
+}
+
+/**
+ * Maps a parsed vCard onto a new card profile. Anything the profile cannot
+ * represent is reported in `unmapped` so the import review can flag it.
+ */
+export function vcardToProfile({ card, unsupported }: ReadVCardResult): VCardImport {
+  const profile = createCardProfile(card.formattedName)
+  const unmapped: UnmappedField[] = unsupported.map((property) => ({
+    property: property.name,
+    value: truncate(property.value),
+    reason: "Not supported on cards",
+  }))
+  const { identity } = profile
+
+  identity.givenName = card.name.given || undefined
+  identity.familyName = card.name.family || undefined
+  identity.title = card.title ?? ""
+  identity.note = card.note
+  identity.avatar.alt = card.formattedName
+
+  const [organization, ...units] = card.organization ?? []
+  identity.organization = organization ?? ""
+  if (units.length > 0) {
+    unmapped.push({ property: "ORG", value: units.join(", "), reason: "Only the organization name is kept" })
+  }
+
+  const uuid = card.uid && UUID_URN.exec(card.uid)
+  if (uuid) profile.id = uuid[1].toLowerCase()
+
+  const contacts: ContactMethod[] = []
+  const socialContacts: ContactMethod[] = []
+  // Values the card could not link to would fail validation on save, so they are reported instead.
+  const addContact = (property: string, contact: ContactMethod, list = contacts) => {
+    const channel = getContactChannel(contact.kind)
+    if (channel.validate(contact.value)) {
+      unmapped.push({ property, value: truncate(contact.value), reason: `Not a valid ${channel.label} contact` })
+    } else {
+      list.push(contact)
+    }
+  }
+
+  for (const phone of card.phones) {
+    if (phone.types.some((type) => NON_MESSAGING_PHONE_TYPES.includes(type))) {
+      unmapped.push({ property: "TEL", value: phone.value, reason: "Fax and pager numbers are not shown" })
+      continue
+    }
+    addContact("TEL", { kind: "message", value: phone.value, types: phone.types })
+  }
+  for (const email of card.emails) {
+    addContact("EMAIL", { kind: "email", value: email.value, types: email.types })
+  }
+
+  const seenProfiles = new Set<string>()
+  const addSocial = (property: string, kind: ContactMethod["kind"], value: string) => {
+    if (seenProfiles.has(value)) return
+    seenProfiles.add(value)
+    addContact(property, { kind, value }, socialContacts)
+  }
+  for (const social of card.socialProfiles) {
+    const kind = channelForSocialProfile(social.type)
+    if (kind) {
+      addSocial("X-SOCIALPROFILE", kind, social.value)
+    } else {
+      unmapped.push({ property: "X-SOCIALPROFILE", value: social.value, reason: `No ${social.type || "social"} channel` })
+    }
+  }
+  for (const url of card.urls) {
+    if (/linkedin\.com\//i.test(url.value)) {
+      addSocial("URL", "linkedin", url.value)
+    } else {
+      addContact("URL", { kind: "website", value: url.value, types: url.types })
+    }
+  }
+  contacts.unshift(...socialContacts)
+
+  for (const { value, types } of card.addresses) {
+    if (value.poBox) {
+      unmapped.push({ property: "ADR", value: value.poBox, reason: "PO boxes are not shown" })
+    }
+    profile.addresses.push({
+      types,
+      street: [value.street, value.extended].filter(Boolean).join(", "),
+      locality: value.locality,
+      region: value.region,
+      postalCode: value.postalCode,
+      country: value.country,
+    })
+  }
+  const [primaryAddress] = profile.addresses
+  if (primaryAddress) {
+    identity.location = [primaryAddress.locality, primaryAddress.region].filter(Boolean).join(", ")
+    const formatted = formatAddress(primaryAddress)
+    if (formatted) addContact("ADR", { kind: "address", value: formatted })
+  }
+
+  profile.contacts = contacts
+  if (card.photo) identity.avatar.src = mediaSrc(card.photo)
+  if (card.logo) {
+    profile.branding = { name: identity.organization, logo: { src: mediaSrc(card.logo), alt: identity.organization } }
+  }
+
+  return { profile, unmapped }
+}
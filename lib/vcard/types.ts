@@ -0,0 +1,52 @@
+export type VCardVersion = "3.0" | "4.0"
+
+/** The five structured components of the N property. */
+export interface VCardName {
+  family: string
+  given: string
+  additional: string
+  prefix: string
+  suffix: string
+}
+
+/** The seven structured components of the ADR property. */
+export interface VCardAddress {
+  poBox: string
+  extended: string
+  street: string
+  locality: string
+  region: string
+  postalCode: string
+  country: string
+}
+
+export interface VCardTyped<T> {
+  value: T
+  types: string[]
+  pref?: boolean
+}
+
+export interface VCardSocialProfile {
+  /** Network name, e.g. `linkedin` or `twitter`. */
+  type: string
+  value: string
+}
+
+/** Media is either carried inline as base64 or referenced by URI. */
+export type VCardMedia = { mediaType: string; data: string } | { uri: string }
+
+export interface VCard {
+  uid?: string
+  formattedName: string
+  name: VCardName
+  organization?: string[]
+  title?: string
+  note?: string
+  phones: VCardTyped<string>[]
+  emails: VCardTyped<string>[]
+  urls: VCardTyped<string>[]
+  addresses: VCardTyped<VCardAddress>[]
+  socialProfiles: VCardSocialProfile[]
+  photo?: VCardMedia
+  logo?: VCardMedia
+}
@@ -0,0 +1,44 @@
+export interface VideoEmbed {
+  provider: "youtube" | "vimeo"
+  /** Player URL for an iframe. */
+  src: string
+}
+
+const YOUTUBE_ID = /^[\w-]{11}$/
+const VIMEO_ID = /^\d+$/
+
+/**
+ * Turns a YouTube or Vimeo page, short or embed link into a player URL, or
+ * returns undefined for anything else. YouTube plays from its no-cookie domain.
+ */
+export function parseVideoEmbed(input: string): VideoEmbed | undefined {
+  let url: URL
+  try {
+    url = new URL(input.trim())
+  } catch {
+    return undefined
+  }
+  const host = url.hostname.replace(/^(www|m)\./, "")
+  const segments = url.pathname.split("/").filter(Boolean)
+
+  if (host === "youtu.be" || host === "youtube.com" || host === "youtube-nocookie.com") {
+    const id =
+      host === "youtu.be"
+        ? segments[0]
+        : segments[0] === "watch"
+          ? url.searchParams.get("v")
+          : ["embed", "shorts", "live"].includes(segments[0])
+            ? segments[1]
+            : undefined
+    if (!id || !YOUTUBE_ID.test(id)) return undefined
+    return { provider: "youtube", src: `https://www.youtube-nocookie.com/embed/${id}` }
+  }
+
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const id = segments.find((segment) => VIMEO_ID.test(segment))
+    if (!id) return undefined
+    return { provider: "vimeo", src: `https://player.vimeo.com/video/${id}?dnt=1` }
+  }
+
+  return undefined
+}
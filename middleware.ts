@@ -0,0 +1,11 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireOwner } from "@/lib/owner-auth"
+
+/** The designer, its preview and its exports are for the card owner; the browser asks for the password. */
+export async function middleware(request: NextRequest) {
+  return (await requireOwner(request)) ?? NextResponse.next()
+}
+
+export const config = {
+  matcher: ["/editor/:path*"],
+}
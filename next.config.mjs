@@ -9,6 +9,12 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    serverActions: {
+      // Imported contacts carry their photo inline as a data: URL.
+      bodySizeLimit: "4mb",
+    },
+  },
 }
 
 export default nextConfig
\ No newline at end of file
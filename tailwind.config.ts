@@ -10,12 +10,28 @@ const config: Config = {
   ],
   theme: {
   	extend: {
+  		fontFamily: {
+  			heading: 'var(--card-font-heading)',
+  			body: 'var(--card-font-body)'
+  		},
   		colors: {
   			background: 'hsl(var(--background))',
   			foreground: 'hsl(var(--foreground))',
   			card: {
   				DEFAULT: 'hsl(var(--card))',
-  				foreground: 'hsl(var(--card-foreground))'
+  				foreground: 'hsl(var(--card-foreground))',
+  				accent: 'hsl(var(--card-accent) / <alpha-value>)',
+  				surface: {
+  					DEFAULT: 'hsl(var(--card-surface))',
+  					end: 'hsl(var(--card-surface-end))',
+  					hover: 'hsl(var(--card-surface-hover))',
+  					'hover-end': 'hsl(var(--card-surface-hover-end))'
+  				}
+  			},
+  			cover: {
+  				from: 'hsl(var(--cover-from))',
+  				via: 'hsl(var(--cover-via))',
+  				to: 'hsl(var(--cover-to))'
   			},
   			popover: {
   				DEFAULT: 'hsl(var(--popover))',